@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_LISTED_SKILLS, formatSkillList, selectSkills } from "../agent-tools";
+import type { Skill } from "../types";
+
+function skill(name: string, namespace: string, extra: Partial<Skill> = {}): Skill {
+	return { name, namespace, description: `About ${name}`, filePath: `/skills/${namespace}/${name}/SKILL.md`, source: "home", ...extra };
+}
+
+const skills = [
+	skill("terraform", "infra", { tokens: 1240 }),
+	skill("s3-sync", "infra/aws"),
+	skill("lint", "repo", { source: "local" }),
+	skill("changelog", "comms"),
+];
+
+describe("selectSkills", () => {
+	it("sorts by namespace:name without a query", () => {
+		assert.deepEqual(selectSkills(skills, {}).map(s => s.name), ["changelog", "terraform", "s3-sync", "lint"]);
+	});
+
+	it("keeps a namespace and the ones nested in it", () => {
+		assert.deepEqual(selectSkills(skills, { namespace: "infra:" }).map(s => s.name), ["terraform", "s3-sync"]);
+		assert.deepEqual(selectSkills(skills, { namespace: "infra/aws" }).map(s => s.name), ["s3-sync"]);
+	});
+
+	it("ranks by the query within the namespace", () => {
+		assert.deepEqual(selectSkills(skills, { query: "terra" }).map(s => s.name), ["terraform"]);
+		assert.deepEqual(selectSkills(skills, { query: "terra", namespace: "repo" }), []);
+	});
+});
+
+describe("formatSkillList", () => {
+	it("lists qualified names, marking project skills and sizes", () => {
+		const text = formatSkillList(skills.slice(0, 3));
+		assert.match(text, /^- infra:terraform — About terraform \(~1\.2k tokens\)$/m);
+		assert.match(text, /^- repo:lint \[local\] — About lint$/m);
+		assert.match(text, /\[local\] skills come from the current project/);
+		assert.match(text, /Load one with load_skill/);
+	});
+
+	it("caps the list and says how many were left out", () => {
+		const many = Array.from({ length: MAX_LISTED_SKILLS + 3 }, (_, i) => skill(`s${i}`, "bulk"));
+		const text = formatSkillList(many);
+		assert.equal(text.split("\n").filter(line => line.startsWith("- ")).length, MAX_LISTED_SKILLS);
+		assert.match(text, /… and 3 more/);
+		assert.doesNotMatch(text, /\[local\]/);
+	});
+
+	it("says so when nothing matches", () => {
+		assert.equal(formatSkillList([]), "No matching skills.");
+	});
+});
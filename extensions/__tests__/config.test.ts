@@ -0,0 +1,160 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as os from "node:os";
+import * as path from "node:path";
+import { expandPath, parseConfig, resolveSkillDirs, emptyConfig, applyUserAliases, LOCAL_PRECEDENCE } from "../config";
+import type { Skill } from "../types";
+
+describe("expandPath", () => {
+	it("expands ~ to the home directory", () => {
+		assert.equal(expandPath("~/skills", "/base"), path.join(os.homedir(), "skills"));
+	});
+
+	it("expands $VAR and ${VAR}", () => {
+		const env = { TEAM: "/srv/team", NAME: "vendor" };
+		assert.equal(expandPath("$TEAM/skills", "/base", env), "/srv/team/skills");
+		assert.equal(expandPath("/opt/${NAME}/skills", "/base", env), "/opt/vendor/skills");
+	});
+
+	it("resolves relative paths against the base dir", () => {
+		assert.equal(expandPath("vendor/skills", "/repo"), "/repo/vendor/skills");
+	});
+});
+
+describe("parseConfig", () => {
+	it("accepts string and object dir entries", () => {
+		const config = parseConfig({
+			skillDirs: ["~/a", { path: "~/b", recursive: false, source: "local", namespace: "team", precedence: 10 }],
+		});
+		assert.deepEqual(config.skillDirs, [
+			{ path: "~/a" },
+			{ path: "~/b", recursive: false, source: "local", namespace: "team", precedence: 10 },
+		]);
+	});
+
+	it("drops malformed entries and fields", () => {
+		const config = parseConfig({ skillDirs: [42, { nope: true }, { path: "/x", source: "root" }], disableDefaults: "yes" });
+		assert.deepEqual(config.skillDirs, [{ path: "/x" }]);
+		assert.equal(config.disableDefaults, false);
+	});
+
+	it("reads the mention mode, false meaning off", () => {
+		assert.equal(parseConfig({}).mentions, "keep");
+		assert.equal(parseConfig({ mentions: "strip" }).mentions, "strip");
+		assert.equal(parseConfig({ mentions: false }).mentions, "off");
+		assert.equal(parseConfig({ mentions: "sometimes" }).mentions, "keep");
+	});
+
+	it("leaves pi's prompt editor alone unless asked to replace it", () => {
+		assert.equal(parseConfig({}).mentionEditor, false);
+		assert.equal(parseConfig({ mentionEditor: true }).mentionEditor, true);
+		assert.equal(parseConfig({ mentionEditor: "yes" }).mentionEditor, false);
+	});
+
+	it("keeps a non-empty injection template", () => {
+		assert.equal(parseConfig({ template: "markdown" }).template, "markdown");
+		assert.equal(parseConfig({ template: "  " }).template, null);
+		assert.equal(parseConfig({ template: 7 }).template, null);
+	});
+
+	it("reads resource options, keeping defaults for bad values", () => {
+		const resources = parseConfig({ resources: { manifest: true, budget: 500, ignore: [" *.log ", "", 3] } }).resources;
+		assert.deepEqual(resources, { manifest: true, resolveLinks: false, budget: 500, ignore: ["*.log"] });
+		assert.equal(parseConfig({ resources: { budget: -1 } }).resources.budget, 2000);
+		assert.deepEqual(parseConfig({ resources: "yes" }).resources, emptyConfig().resources);
+	});
+
+	it("reads the token budget, false turning it off", () => {
+		assert.deepEqual(parseConfig({}).tokens, { budget: 8000, overflow: "warn" });
+		assert.deepEqual(parseConfig({ tokens: { budget: 4000.5, overflow: "outline" } }).tokens, { budget: 4000, overflow: "outline" });
+		assert.equal(parseConfig({ tokens: { budget: false } }).tokens.budget, null);
+		assert.deepEqual(parseConfig({ tokens: { budget: -5, overflow: "drop" } }).tokens, { budget: 8000, overflow: "warn" });
+	});
+
+	it("reads suggestion options, false turning them off", () => {
+		assert.deepEqual(parseConfig({}).suggest, { enabled: true, threshold: 0.5, autoInject: null });
+		assert.deepEqual(parseConfig({ suggest: { threshold: 0.3, autoInject: 0.9 } }).suggest, { enabled: true, threshold: 0.3, autoInject: 0.9 });
+		assert.equal(parseConfig({ suggest: false }).suggest.enabled, false);
+		assert.deepEqual(parseConfig({ suggest: { threshold: 5, autoInject: true } }).suggest, { enabled: true, threshold: 0.5, autoInject: null });
+	});
+
+	it("watches skill dirs unless turned off", () => {
+		assert.equal(parseConfig({}).watch, true);
+		assert.equal(parseConfig({ watch: false }).watch, false);
+	});
+
+	it("registers agent tools unless turned off", () => {
+		assert.equal(parseConfig({}).tools, true);
+		assert.equal(parseConfig({ tools: false }).tools, false);
+		assert.equal(parseConfig({ tools: "no" }).tools, true);
+	});
+
+	it("returns an empty config for non-objects", () => {
+		assert.deepEqual(parseConfig(null), emptyConfig());
+	});
+});
+
+describe("resolveSkillDirs", () => {
+	const cwd = "/repo";
+
+	it("returns the defaults with home dirs before local ones", () => {
+		const dirs = resolveSkillDirs(emptyConfig(), emptyConfig(), cwd);
+		assert.equal(dirs.length, 6);
+		const firstLocal = dirs.findIndex(d => d.source === "local");
+		assert.ok(dirs.slice(firstLocal).every(d => d.source === "local"));
+	});
+
+	it("disables defaults by id or entirely", () => {
+		const some = resolveSkillDirs({ ...emptyConfig(), disableDefaults: ["codex"] }, emptyConfig(), cwd);
+		assert.equal(some.length, 5);
+		assert.ok(!some.some(d => d.dir.includes(".codex")));
+
+		const none = resolveSkillDirs({ ...emptyConfig(), disableDefaults: true }, emptyConfig(), cwd);
+		assert.equal(none.length, 0);
+	});
+
+	it("orders extra home dirs by precedence", () => {
+		const home = { ...emptyConfig(), disableDefaults: true, skillDirs: [{ path: "/late", precedence: 200 }, { path: "/early", precedence: -1 }] };
+		const dirs = resolveSkillDirs(home, emptyConfig(), cwd);
+		assert.deepEqual(dirs.map(d => d.dir), ["/early", "/late"]);
+	});
+
+	it("keeps project dirs local and behind home dirs", () => {
+		const project = { ...emptyConfig(), skillDirs: [{ path: "vendor", source: "home" as const, precedence: -100 }] };
+		const dirs = resolveSkillDirs(emptyConfig(), project, cwd);
+		const vendor = dirs.find(d => d.dir === "/repo/vendor")!;
+		assert.equal(vendor.source, "local");
+		assert.ok(vendor.precedence >= LOCAL_PRECEDENCE);
+		assert.ok(dirs.indexOf(vendor) > dirs.findIndex(d => d.source === "local"));
+	});
+
+	it("project config can't disable home defaults", () => {
+		const dirs = resolveSkillDirs(emptyConfig(), { ...emptyConfig(), disableDefaults: true }, cwd);
+		assert.equal(dirs.length, 4);
+		assert.ok(dirs.every(d => d.source === "home"));
+	});
+});
+
+describe("applyUserAliases", () => {
+	function makeSkill(name: string, namespace: string, source: Skill["source"] = "home"): Skill {
+		return { name, namespace, description: "d", filePath: `/fake/${name}/SKILL.md`, source, aliases: ["existing"] };
+	}
+
+	it("parses aliases as lists or comma-separated strings", () => {
+		const config = parseConfig({ aliases: { "infra:kubernetes-deploy": ["k8s", " kube "], "github-review": "pr, review", bad: 3 } });
+		assert.deepEqual(config.aliases, { "infra:kubernetes-deploy": ["k8s", "kube"], "github-review": ["pr", "review"] });
+	});
+
+	it("adds home aliases by qualified or bare name", () => {
+		const home = parseConfig({ aliases: { "infra:deploy": ["ship"], deploy: "release" } });
+		const [skill] = applyUserAliases([makeSkill("deploy", "infra")], home, emptyConfig());
+		assert.deepEqual(skill.aliases, ["existing", "ship", "release"]);
+	});
+
+	it("only lets the project config alias local skills", () => {
+		const project = parseConfig({ aliases: { deploy: ["ship"] } });
+		const [home, local] = applyUserAliases([makeSkill("deploy", "infra"), makeSkill("deploy", "repo", "local")], emptyConfig(), project);
+		assert.deepEqual(home.aliases, ["existing"]);
+		assert.deepEqual(local.aliases, ["existing", "ship"]);
+	});
+});
@@ -1,7 +1,7 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { scoreMatch, filterSkills } from "../fuzzy";
-import type { Skill } from "../types";
+import { scoreMatch, filterSkills, frecency, buildDisplayList, matchSkills, matchText, recentSkills, PROJECT_RECENT_GROUP, RECENT_GROUP, SUGGESTED_GROUP } from "../fuzzy";
+import type { Skill, SkillUsage } from "../types";
 
 function makeSkill(name: string, namespace: string, description = ""): Skill {
 	return { name, namespace, description, filePath: `/fake/${name}/SKILL.md`, source: "home" };
@@ -69,6 +69,21 @@ describe("filterSkills", () => {
 		assert.equal(result[0].name, "ad-creative");
 	});
 
+	it("a namespace query includes the namespaces nested in it", () => {
+		const nested = [makeSkill("s3-sync", "infra/aws"), makeSkill("gcs-sync", "infra/gcp"), makeSkill("seo", "marketing")];
+		assert.deepEqual(filterSkills(nested, "infra").map(s => s.name), ["s3-sync", "gcs-sync"]);
+		assert.deepEqual(filterSkills(nested, "inf").map(s => s.name), ["s3-sync", "gcs-sync"]);
+		assert.deepEqual(filterSkills(nested, "infra:").map(s => s.name), ["s3-sync", "gcs-sync"]);
+		assert.deepEqual(filterSkills(nested, "infra/aws").map(s => s.name), ["s3-sync"]);
+	});
+
+	it("namespace: matches whole namespace segments only", () => {
+		const nested = [makeSkill("s3-sync", "infra/aws"), makeSkill("deploy", "infrastructure"), makeSkill("deploy", "infra")];
+		assert.deepEqual(filterSkills(nested, "infra:").map(s => s.namespace), ["infra/aws", "infra"]);
+		assert.deepEqual(filterSkills(nested, "infra:deploy").map(s => s.namespace), ["infra"]);
+		assert.deepEqual(filterSkills(nested, "inf:"), []);
+	});
+
 	it("exact namespace match shows only that namespace", () => {
 		const result = filterSkills(skills, "search");
 		assert.ok(result.length === 2, `Expected 2 search skills, got ${result.length}`);
@@ -87,3 +102,163 @@ describe("filterSkills", () => {
 		assert.ok(result.some(s => s.name === "fizzy-cli"), "Expected fizzy-cli (has 'kanban' in desc)");
 	});
 });
+
+describe("frecency", () => {
+	const DAY = 24 * 60 * 60 * 1000;
+	const now = Date.now();
+
+	function usage(name: string, count: number, daysAgo: number): SkillUsage {
+		return { name, namespace: "tools", count, timestamp: now - daysAgo * DAY };
+	}
+
+	it("decays with time since last use", () => {
+		assert.ok(frecency(usage("a", 4, 0), now) > frecency(usage("a", 4, 30), now));
+		assert.equal(frecency(usage("a", 4, 7), now), 2);
+	});
+
+	it("boosts used skills within a match tier", () => {
+		const skills = [makeSkill("fizzy-cli", "tools"), makeSkill("fizzy-triage", "tools")];
+		assert.equal(filterSkills(skills, "fizzy")[0].name, "fizzy-cli");
+		const ranked = filterSkills(skills, "fizzy", [usage("fizzy-triage", 10, 0)]);
+		assert.equal(ranked[0].name, "fizzy-triage");
+	});
+
+	it("never lifts a skill above a better match tier", () => {
+		const skills = [makeSkill("deploy", "tools"), makeSkill("deploy-preview", "tools")];
+		const ranked = filterSkills(skills, "deploy", [usage("deploy-preview", 500, 0)]);
+		assert.equal(ranked[0].name, "deploy");
+	});
+
+	it("breaks ties between equal scores", () => {
+		const skills = [makeSkill("lint-css", "tools"), makeSkill("lint-sql", "tools")];
+		const ranked = filterSkills(skills, "lint", [usage("lint-sql", 1, 60)]);
+		assert.equal(ranked[0].name, "lint-sql");
+	});
+
+	it("keeps full history but shows only the latest recents", () => {
+		const many = Array.from({ length: 12 }, (_, i) => makeSkill(`skill-${i}`, "tools"));
+		const history = many.map((s, i) => usage(s.name, 1, i));
+		const items = buildDisplayList(many, history);
+		const recent = items.filter(i => i.type === "skill" && i.namespace === RECENT_GROUP);
+		assert.equal(recent.length, 8);
+		assert.equal(items.filter(i => i.type === "skill").length, 12);
+	});
+
+	it("counts as recent only what the recent sections show", () => {
+		const many = Array.from({ length: 12 }, (_, i) => makeSkill(`skill-${i}`, "tools"));
+		const history = many.map((s, i) => usage(s.name, 1, i));
+		const recent = recentSkills(many, history, [usage("skill-11", 1, 0)]);
+		assert.deepEqual(recent.map(s => s.name), ["skill-11", ...many.slice(0, 8).map(s => s.name)]);
+	});
+
+	it("lists recent-in-this-project first without repeating it below", () => {
+		const skills = [makeSkill("deploy", "tools"), makeSkill("seo", "tools"), makeSkill("lint", "tools")];
+		const items = buildDisplayList(skills, [usage("seo", 5, 0), usage("deploy", 1, 1)], [usage("deploy", 1, 1)]);
+		const sections = items.filter(i => i.type === "skill").map(i => `${i.namespace}/${i.skill!.name}`);
+		assert.deepEqual(sections, [`${PROJECT_RECENT_GROUP}/deploy`, `${RECENT_GROUP}/seo`, "tools/lint"]);
+	});
+
+	it("lists suggested skills first, without repeating them below", () => {
+		const skills = [makeSkill("deploy", "tools"), makeSkill("seo", "tools"), makeSkill("lint", "tools")];
+		const items = buildDisplayList(skills, [usage("seo", 5, 0)], [], new Set(), [makeSkill("lint", "tools")]);
+		const sections = items.filter(i => i.type === "skill").map(i => `${i.namespace}/${i.skill!.name}`);
+		assert.deepEqual(sections, [`${SUGGESTED_GROUP}/lint`, `${RECENT_GROUP}/seo`, "tools/deploy"]);
+	});
+
+	it("keeps a namespace called recent apart from the recent section", () => {
+		const skills = [makeSkill("deploy", "tools"), makeSkill("changelog", "recent")];
+		const items = buildDisplayList(skills, [usage("deploy", 1, 0)], [], new Set([RECENT_GROUP]));
+		const headers = items.filter(i => i.type === "header").map(i => ({ ns: i.namespace, collapsed: i.collapsed }));
+		assert.deepEqual(headers, [{ ns: RECENT_GROUP, collapsed: true }, { ns: "recent", collapsed: false }]);
+		assert.deepEqual(items.filter(i => i.type === "skill").map(i => i.skill!.name), ["changelog"]);
+	});
+
+	it("renders nested namespaces as a tree with subtree counts", () => {
+		const skills = [makeSkill("s3-sync", "infra/aws"), makeSkill("gcs-sync", "infra/gcp"), makeSkill("lint", "infra-tools")];
+		const items = buildDisplayList(skills, []);
+		assert.deepEqual(
+			items.map(i => i.type === "header" ? `${i.depth}:${i.namespace}(${i.count})` : `  ${i.skill!.name}`),
+			["0:infra(2)", "1:infra/aws(1)", "  s3-sync", "1:infra/gcp(1)", "  gcs-sync", "0:infra-tools(1)", "  lint"]
+		);
+	});
+
+	it("hides the whole subtree of a collapsed namespace", () => {
+		const skills = [makeSkill("s3-sync", "infra/aws"), makeSkill("lint", "tools")];
+		const items = buildDisplayList(skills, [], [], new Set(["infra"]));
+		assert.deepEqual(items.map(i => i.namespace), ["infra", "tools", "tools"]);
+	});
+
+	it("counts skills per header and lists none under a collapsed group", () => {
+		const skills = [makeSkill("deploy", "infra"), makeSkill("rollback", "infra"), makeSkill("lint", "tools")];
+		const items = buildDisplayList(skills, [], [], new Set(["infra"]));
+		const headers = items.filter(i => i.type === "header").map(i => ({ ns: i.namespace, count: i.count, collapsed: i.collapsed }));
+		assert.deepEqual(headers, [{ ns: "infra", count: 2, collapsed: true }, { ns: "tools", count: 1, collapsed: false }]);
+		assert.deepEqual(items.filter(i => i.type === "skill").map(i => i.skill!.name), ["lint"]);
+	});
+});
+
+describe("aliases and tags", () => {
+	const skills: Skill[] = [
+		{ ...makeSkill("kubernetes-deploy", "infra", "Roll out to the cluster"), aliases: ["k8s"], tags: ["containers"] },
+		{ ...makeSkill("github-review", "code", "Review a pull request"), aliases: ["pr"] },
+		makeSkill("prompt-library", "prompts", "Reusable prompts"),
+		makeSkill("k8s-lint", "infra", "Lint manifests"),
+	];
+
+	it("finds a skill by alias and reports why", () => {
+		const [first] = matchSkills(skills, "k8s").filter(m => m.skill.name === "kubernetes-deploy");
+		assert.deepEqual(first.matchedBy, { kind: "alias", text: "k8s" });
+	});
+
+	it("ranks an alias match below the same match on a name", () => {
+		const kube = [{ ...makeSkill("kubectl-debug", "infra"), aliases: ["kube"] }, makeSkill("kube", "infra")];
+		assert.deepEqual(filterSkills(kube, "kube").map(s => s.name), ["kube", "kubectl-debug"]);
+	});
+
+	it("finds a skill by tag", () => {
+		const matches = matchSkills(skills, "container");
+		assert.equal(matches[0].skill.name, "kubernetes-deploy");
+		assert.deepEqual(matches[0].matchedBy, { kind: "tag", text: "containers" });
+	});
+
+	it("prefers an exact alias over a namespace prefix", () => {
+		assert.equal(filterSkills(skills, "pr")[0].name, "github-review");
+	});
+
+	it("leaves matchedBy unset when the name matched", () => {
+		assert.equal(matchSkills(skills, "github").find(m => m.skill.name === "github-review")?.matchedBy, undefined);
+	});
+});
+
+describe("match positions", () => {
+	it("returns the matched range for prefix and substring matches", () => {
+		assert.deepEqual(matchText("fiz", "fizzy-cli").positions, [0, 1, 2]);
+		assert.deepEqual(matchText("cli", "fizzy-cli").positions, [6, 7, 8]);
+	});
+
+	it("returns each matched character for fuzzy matches", () => {
+		assert.deepEqual(matchText("fzcli", "fizzy-cli").positions, [0, 2, 6, 7, 8]);
+	});
+
+	it("reports the field that matched", () => {
+		const skills = [makeSkill("fizzy-cli", "tools", "Fizzy kanban CLI")];
+		const byName = matchSkills(skills, "fizzy")[0];
+		assert.equal(byName.field, "name");
+		assert.deepEqual(byName.highlights?.name, [0, 1, 2, 3, 4]);
+
+		const byDesc = matchSkills(skills, "kanban")[0];
+		assert.equal(byDesc.field, "description");
+		assert.deepEqual(byDesc.highlights?.description, [6, 7, 8, 9, 10, 11]);
+	});
+
+	it("splits a namespace:name match into both fields", () => {
+		const [match] = matchSkills([makeSkill("deploy", "infra")], "infdep");
+		assert.equal(match.field, "namespace");
+		assert.deepEqual(match.highlights, { namespace: [0, 1, 2], name: [0, 1, 2] });
+	});
+
+	it("highlights the namespace prefix in namespace:query searches", () => {
+		const [match] = matchSkills([makeSkill("deploy", "infra")], "infra:dep");
+		assert.deepEqual(match.highlights, { namespace: [0, 1, 2, 3, 4], name: [0, 1, 2] });
+	});
+});
@@ -0,0 +1,73 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createLine, editLine } from "../lib/line-editor";
+
+const KEYS = {
+	left: "\u001b[D",
+	right: "\u001b[C",
+	home: "\u001b[H",
+	end: "\u001b[F",
+	backspace: "\u007f",
+	delete: "\u001b[3~",
+	ctrlW: "\u0017",
+	ctrlU: "\u0015",
+	ctrlK: "\u000b",
+	altB: "\u001bb",
+};
+
+function type(line: ReturnType<typeof createLine>, ...keys: string[]) {
+	for (const key of keys) editLine(line, key);
+	return line;
+}
+
+describe("editLine", () => {
+	it("inserts at the cursor", () => {
+		const line = type(createLine("deploy"), KEYS.home, "k", "8", "s", " ");
+		assert.deepEqual({ text: line.text, cursor: line.cursor }, { text: "k8s deploy", cursor: 4 });
+	});
+
+	it("moves by character, word and line", () => {
+		const line = createLine("ns:infra deploy now");
+		type(line, KEYS.altB);
+		assert.equal(line.cursor, 16);
+		type(line, KEYS.altB, KEYS.left);
+		assert.equal(line.cursor, 8);
+		type(line, KEYS.end, KEYS.right);
+		assert.equal(line.cursor, line.text.length);
+	});
+
+	it("deletes backward and forward", () => {
+		const line = type(createLine("abc"), KEYS.left, KEYS.backspace, KEYS.delete);
+		assert.deepEqual({ text: line.text, cursor: line.cursor }, { text: "a", cursor: 1 });
+	});
+
+	it("ctrl+w deletes the word before the cursor, with its trailing spaces", () => {
+		const line = type(createLine("src:local deploy  "), KEYS.ctrlW);
+		assert.equal(line.text, "src:local ");
+	});
+
+	it("ctrl+u and ctrl+k delete to the start and end of the line", () => {
+		const line = type(createLine("one two"), KEYS.left, KEYS.left, KEYS.left, KEYS.ctrlU);
+		assert.deepEqual({ text: line.text, cursor: line.cursor }, { text: "two", cursor: 0 });
+		type(line, KEYS.right, KEYS.ctrlK);
+		assert.equal(line.text, "t");
+	});
+
+	it("inserts a bracketed paste split over several chunks on one line", () => {
+		const line = createLine();
+		assert.ok(editLine(line, "\x1b[200~desc:\"roll"));
+		assert.equal(line.text, "");
+		editLine(line, " out\"\nmore\x1b[201~x");
+		assert.equal(line.text, "desc:\"roll out\" morex");
+		assert.equal(line.paste, null);
+	});
+
+	it("inserts unbracketed multi-character input", () => {
+		assert.equal(type(createLine(), "kubernetes").text, "kubernetes");
+	});
+
+	it("leaves keys it doesn't edit with", () => {
+		assert.equal(editLine(createLine("x"), "\u001b[A"), false);
+		assert.equal(editLine(createLine("x"), "\r"), false);
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findMentions, mentionAtCursor, resolveMentions, stripMentions } from "../mentions";
+import type { Skill } from "../types";
+
+function makeSkill(name: string, namespace: string): Skill {
+	return { name, namespace, description: "", filePath: `/fake/${namespace}/${name}/SKILL.md`, source: "home" };
+}
+
+const refs = (text: string) => findMentions(text).map(m => m.ref);
+
+describe("findMentions", () => {
+	it("finds $ and @skill: mentions, qualified or bare", () => {
+		assert.deepEqual(refs("use $infra:terraform then @skill:deploy"), ["infra:terraform", "deploy"]);
+		assert.deepEqual(refs("($infra/aws:s3-sync)"), ["infra/aws:s3-sync"]);
+	});
+
+	it("leaves trailing punctuation out of the name", () => {
+		const [mention] = findMentions("run $deploy.");
+		assert.equal(mention.ref, "deploy");
+		assert.equal("run $deploy.".slice(mention.start, mention.end), "$deploy");
+	});
+
+	it("marks only @skill: mentions explicit", () => {
+		assert.deepEqual(findMentions("$deploy $infra:deploy @skill:deploy").map(m => m.explicit), [false, false, true]);
+	});
+
+	it("ignores shell variables, prices and mid-word dollars", () => {
+		assert.deepEqual(refs("echo $HOME costs $5 a$b user@skill:x"), []);
+	});
+
+	it("ignores mentions in inline code and fenced blocks", () => {
+		assert.deepEqual(refs("`$deploy` and\n```\n$lint\n```\nbut $seo"), ["seo"]);
+	});
+});
+
+describe("resolveMentions", () => {
+	const skills = [makeSkill("terraform", "infra"), makeSkill("deploy", "infra"), makeSkill("deploy", "other")];
+	const lookup = (ref: string) => skills.filter(s => `${s.namespace}:${s.name}` === ref || s.name === ref);
+	const isNamespace = (ns: string) => skills.some(s => s.namespace === ns);
+
+	it("leaves unknown bare $words as text — shell and PHP variables aren't skills", () => {
+		for (const text of ["copy it to $path", "return $this->db;", "echo $home"]) {
+			assert.deepEqual(resolveMentions(text, lookup), { skills: [], used: [], ambiguous: [], unknown: [] }, text);
+		}
+	});
+
+	it("reports @skill: and known-namespace mentions that name no skill", () => {
+		assert.deepEqual(resolveMentions("use @skill:nope and $infra:nope, not $nope", lookup, isNamespace).unknown, ["nope", "infra:nope"]);
+	});
+
+	it("leaves $word:word in an unknown namespace as text", () => {
+		for (const text of ["echo $foo:bar", "scp $host:/tmp/x ."]) {
+			assert.deepEqual(resolveMentions(text, lookup, isNamespace).unknown, [], text);
+		}
+	});
+
+	it("resolves skills next to variables, stripping only the skill mentions", () => {
+		const text = "use $terraform for $path";
+		const resolution = resolveMentions(text, lookup);
+		assert.deepEqual(resolution.skills.map(s => s.name), ["terraform"]);
+		assert.equal(stripMentions(text, resolution.used), "use for $path");
+	});
+
+	it("reports a bare name several namespaces use", () => {
+		const { ambiguous } = resolveMentions("run $deploy", lookup);
+		assert.deepEqual(ambiguous.map(a => [a.ref, a.found.length]), [["deploy", 2]]);
+	});
+});
+
+describe("stripMentions", () => {
+	it("removes each mention with one adjacent space", () => {
+		const text = "use $infra:terraform to plan, then @skill:deploy";
+		assert.equal(stripMentions(text, findMentions(text)), "use to plan, then");
+	});
+});
+
+describe("mentionAtCursor", () => {
+	it("reports the mention being typed", () => {
+		assert.deepEqual(mentionAtCursor("please use $infra:te"), { sigil: "$", ref: "infra:te" });
+		assert.deepEqual(mentionAtCursor("@skill:"), { sigil: "@skill:", ref: "" });
+		assert.deepEqual(mentionAtCursor("x $"), { sigil: "$", ref: "" });
+	});
+
+	it("ignores non-mentions", () => {
+		assert.equal(mentionAtCursor("echo $HOME"), null);
+		assert.equal(mentionAtCursor("a$b"), null);
+		assert.equal(mentionAtCursor("@src/file.ts"), null);
+	});
+});
@@ -1,7 +1,8 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { handlePaletteInput, createPaletteState, type PaletteRenderState } from "../screens/palette";
-import type { Skill } from "../types";
+import { visibleWidth } from "@mariozechner/pi-tui";
+import { handlePaletteInput, createPaletteState, renderPalette, updatePaletteSkills, type PaletteRenderState } from "../screens/palette";
+import type { Skill, Theme } from "../types";
 
 function makeSkill(name: string, namespace = "other"): Skill {
 	return { name, namespace, description: `Desc for ${name}`, filePath: `/fake/${name}/SKILL.md`, source: "home" };
@@ -20,10 +21,19 @@ const KEYS = {
 	enter: "\r",
 	escape: "\u001b",
 	backspace: "\u007f",
+	ctrlP: "\u0010",
+	ctrlSpace: "\u0000",
+	tab: "\t",
+	shiftTab: "\u001b[Z",
+	right: "\u001b[C",
+	left: "\u001b[D",
+	pageUp: "\u001b[5~",
+	pageDown: "\u001b[6~",
 };
 
 function makeState(queuedSkillName: string | null = null): PaletteRenderState {
-	return createPaletteState(testSkills, queuedSkillName, []);
+	const queued = testSkills.filter(s => s.name === queuedSkillName);
+	return createPaletteState(testSkills, queued, []);
 }
 
 describe("handlePaletteInput", () => {
@@ -48,6 +58,14 @@ describe("handlePaletteInput", () => {
 	});
 
 	describe("selection", () => {
+		it("opens on the first suggested skill, and enter queues it", () => {
+			const state = createPaletteState(testSkills, [], [], [], 0, [], [], [], [testSkills[2]]);
+			assert.equal(state.displayItems[state.selectedIndex].skill?.name, "ad-creative");
+			const action = handlePaletteInput(state, KEYS.enter);
+			assert.ok(action && action.type === "select");
+			assert.deepEqual(action.queued.map(s => s.name), ["ad-creative"]);
+		});
+
 		it("enter on a skill returns select action", () => {
 			const state = makeState();
 			const action = handlePaletteInput(state, KEYS.enter);
@@ -67,6 +85,139 @@ describe("handlePaletteInput", () => {
 			assert.ok(action);
 			assert.equal(action.type, "unqueue");
 			assert.ok("skill" in action && action.skill.name === firstItem.skill.name);
+			assert.ok("queued" in action && action.queued.length === 0);
+		});
+
+		it("space off a queued skill then enter commits the emptied queue", () => {
+			const preState = makeState();
+			const first = preState.displayItems[preState.selectedIndex].skill!;
+			const state = makeState(first.name);
+			handlePaletteInput(state, " ");
+			assert.equal(state.queued.length, 0);
+			const action = handlePaletteInput(state, KEYS.enter);
+			assert.ok(action && action.type === "unqueue");
+			assert.deepEqual(action.queued, []);
+		});
+
+		it("space then enter queues the skill once", () => {
+			const state = makeState();
+			const first = state.displayItems[state.selectedIndex].skill!;
+			handlePaletteInput(state, " ");
+			const action = handlePaletteInput(state, KEYS.enter);
+			assert.ok(action && action.type === "select");
+			assert.deepEqual(action.queued.map(s => s.name), [first.name]);
+		});
+
+		it("space types into a query, ctrl+space toggles while searching", () => {
+			const state = makeState();
+			for (const ch of "creative") handlePaletteInput(state, ch);
+			handlePaletteInput(state, KEYS.ctrlSpace);
+			assert.deepEqual(state.queued.map(s => s.name), ["ad-creative"]);
+
+			for (const ch of " ad") handlePaletteInput(state, ch);
+			assert.equal(state.query, "creative ad");
+			assert.equal(state.queued.length, 1);
+		});
+
+		it("types every space of a query with operators", () => {
+			for (const query of ["terraform -aws", "deploy src:local", "ns:infra deploy"]) {
+				const state = makeState();
+				for (const ch of query) handlePaletteInput(state, ch);
+				assert.equal(state.query, query);
+				assert.equal(state.queued.length, 0);
+			}
+		});
+
+		it("space toggles skills without closing the palette", () => {
+			const state = makeState();
+			const first = state.displayItems[state.selectedIndex].skill!;
+			assert.equal(handlePaletteInput(state, " "), undefined);
+			assert.deepEqual(state.queued.map(s => s.name), [first.name]);
+			assert.equal(state.query, "", "space should not be typed into the query");
+
+			handlePaletteInput(state, " ");
+			assert.equal(state.queued.length, 0);
+		});
+
+		it("enter returns every toggled skill in queue order", () => {
+			const state = makeState();
+			const first = state.displayItems[state.selectedIndex].skill!;
+			handlePaletteInput(state, " ");
+			handlePaletteInput(state, KEYS.down);
+			const second = state.displayItems[state.selectedIndex].skill!;
+			const action = handlePaletteInput(state, KEYS.enter);
+			assert.ok(action && action.type === "select");
+			assert.deepEqual(action.queued.map(s => s.name), [first.name, second.name]);
+		});
+	});
+
+	describe("pinning", () => {
+		it("ctrl+p returns pin action for an unpinned skill", () => {
+			const state = makeState();
+			const action = handlePaletteInput(state, KEYS.ctrlP);
+			assert.ok(action);
+			assert.equal(action.type, "pin");
+		});
+
+		it("ctrl+p returns unpin action for a pinned skill", () => {
+			const preState = makeState();
+			const first = preState.displayItems[preState.selectedIndex].skill!;
+			const state = createPaletteState(testSkills, [], [], [first]);
+			const action = handlePaletteInput(state, KEYS.ctrlP);
+			assert.ok(action);
+			assert.equal(action.type, "unpin");
+			assert.ok("skill" in action && action.skill.name === first.name);
+		});
+	});
+
+	describe("preview", () => {
+		it("right arrow opens the preview for the selected skill", () => {
+			const state = makeState();
+			const selected = state.displayItems[state.selectedIndex].skill!;
+			assert.equal(handlePaletteInput(state, KEYS.right), undefined);
+			assert.equal(state.preview?.skill.name, selected.name);
+		});
+
+		it("left arrow closes the preview", () => {
+			const state = makeState();
+			handlePaletteInput(state, KEYS.right);
+			handlePaletteInput(state, KEYS.left);
+			assert.equal(state.preview, null);
+		});
+
+		it("escape closes the preview instead of the palette", () => {
+			const state = makeState();
+			handlePaletteInput(state, KEYS.right);
+			assert.equal(handlePaletteInput(state, KEYS.escape), undefined);
+			assert.equal(state.preview, null);
+		});
+
+		it("enter in preview selects the previewed skill", () => {
+			const state = makeState();
+			handlePaletteInput(state, KEYS.right);
+			const previewed = state.preview!.skill;
+			const action = handlePaletteInput(state, KEYS.enter);
+			assert.ok(action && action.type === "select");
+			assert.equal(action.skill.name, previewed.name);
+		});
+
+		it("typing is ignored while previewing", () => {
+			const state = makeState();
+			handlePaletteInput(state, KEYS.right);
+			handlePaletteInput(state, "x");
+			assert.equal(state.query, "");
+		});
+	});
+
+	describe("duplicate names", () => {
+		it("queues same-named skills from different namespaces separately", () => {
+			const skills = [makeSkill("deploy", "infra"), makeSkill("deploy", "other")];
+			const state = createPaletteState(skills, [], []);
+			assert.ok(state.ambiguousNames.has("deploy"));
+			handlePaletteInput(state, " ");
+			handlePaletteInput(state, KEYS.down);
+			handlePaletteInput(state, " ");
+			assert.deepEqual(state.queued.map(s => s.namespace).sort(), ["infra", "other"]);
 		});
 	});
 
@@ -118,3 +269,197 @@ describe("handlePaletteInput", () => {
 		});
 	});
 });
+
+describe("updatePaletteSkills", () => {
+	it("keeps the query and selection across a reload", () => {
+		const state = createPaletteState(testSkills, [], []);
+		for (const ch of "search") handlePaletteInput(state, ch);
+		const before = state.displayItems[state.selectedIndex].skill;
+
+		updatePaletteSkills(state, [...testSkills, makeSkill("web-search", "search")], 0);
+
+		assert.equal(state.query, "search");
+		assert.equal(state.displayItems[state.selectedIndex].skill?.name, before?.name);
+		assert.ok(state.displayItems.some(i => i.skill?.name === "web-search"));
+	});
+
+	it("drops queued skills that no longer exist", () => {
+		const state = createPaletteState(testSkills, [testSkills[0], testSkills[1]], []);
+		updatePaletteSkills(state, testSkills.slice(1), 0);
+		assert.deepEqual(state.queued.map(s => s.name), ["brave-search"]);
+	});
+});
+
+describe("query operators", () => {
+	it("types a space after an operator instead of toggling the queue", () => {
+		const state = createPaletteState(testSkills, [], []);
+		for (const ch of "ns:search se") handlePaletteInput(state, ch);
+		assert.equal(state.query, "ns:search se");
+		assert.deepEqual(state.queued, []);
+		assert.deepEqual(state.displayItems.map(i => i.skill?.name), ["brave-search"]);
+	});
+
+	it("lists filter-only results grouped by namespace", () => {
+		const state = createPaletteState(testSkills, [], []);
+		for (const ch of "-brave") handlePaletteInput(state, ch);
+		assert.deepEqual(state.displayItems.filter(i => i.type === "header").map(i => i.namespace), ["marketing", "tools"]);
+	});
+});
+
+describe("collapsible groups", () => {
+	const grouped = [makeSkill("deploy", "infra"), makeSkill("rollback", "infra"), makeSkill("seo", "marketing"), makeSkill("lint", "tools")];
+
+	it("← collapses the group and selects its header, → expands it again", () => {
+		const state = createPaletteState(grouped, [], []);
+		handlePaletteInput(state, KEYS.down);
+		handlePaletteInput(state, KEYS.left);
+		const header = state.displayItems[state.selectedIndex];
+		assert.deepEqual({ type: header.type, namespace: header.namespace, collapsed: header.collapsed }, { type: "header", namespace: "infra", collapsed: true });
+		assert.ok(!state.displayItems.some(i => i.skill?.name === "rollback"));
+
+		handlePaletteInput(state, KEYS.right);
+		assert.ok(!state.collapsed.has("infra"));
+		assert.equal(state.displayItems[state.selectedIndex].skill?.name, "deploy");
+	});
+
+	it("enter on a collapsed header expands it instead of selecting", () => {
+		const state = createPaletteState(grouped, [], [], [], 0, [], ["infra"]);
+		assert.equal(state.displayItems[state.selectedIndex].type, "header");
+		assert.equal(handlePaletteInput(state, KEYS.enter), undefined);
+		assert.equal(state.displayItems[state.selectedIndex].skill?.name, "deploy");
+	});
+
+	it("PageDown jumps to the next group, PageUp back to the start of the group", () => {
+		const state = createPaletteState(grouped, [], [], [], 0, [], ["marketing"]);
+		handlePaletteInput(state, KEYS.pageDown);
+		assert.equal(state.displayItems[state.selectedIndex].namespace, "marketing");
+		handlePaletteInput(state, KEYS.pageDown);
+		assert.equal(state.displayItems[state.selectedIndex].skill?.name, "lint");
+		handlePaletteInput(state, KEYS.pageUp);
+		assert.equal(state.displayItems[state.selectedIndex].type, "header");
+		handlePaletteInput(state, KEYS.pageUp);
+		assert.equal(state.displayItems[state.selectedIndex].skill?.name, "deploy");
+	});
+
+	it("Tab and Shift+Tab jump between groups like PageDown and PageUp", () => {
+		const state = createPaletteState(grouped, [], [], [], 0, [], ["marketing"]);
+		handlePaletteInput(state, KEYS.tab);
+		assert.equal(state.displayItems[state.selectedIndex].namespace, "marketing");
+		assert.equal(state.preview, null);
+		handlePaletteInput(state, KEYS.shiftTab);
+		assert.equal(state.displayItems[state.selectedIndex].skill?.name, "deploy");
+	});
+
+	it("lands on a skill when a group's header is followed by a nested one", () => {
+		// tools, then infra (no skills of its own) → infra/aws
+		const nested = [makeSkill("lint", "tools"), makeSkill("s3-sync", "infra/aws"), makeSkill("ec2", "infra/aws")];
+		const state = createPaletteState(nested, [], []);
+		const selected = () => state.displayItems[state.selectedIndex];
+		assert.equal(selected().skill?.name, "ec2");
+
+		handlePaletteInput(state, KEYS.tab);
+		assert.equal(selected().skill?.name, "lint");
+		handlePaletteInput(state, KEYS.shiftTab);
+		assert.equal(selected().skill?.name, "ec2");
+
+
+		// Expanding the skill-less parent selects its first child's skill
+		const folded = createPaletteState(nested, [], [], [], 0, [], ["infra"]);
+		assert.equal(folded.displayItems[folded.selectedIndex].namespace, "infra");
+		handlePaletteInput(folded, KEYS.enter);
+		assert.equal(folded.displayItems[folded.selectedIndex].skill?.name, "ec2");
+	});
+
+	it("collapsed groups stay collapsed while filtering with operators", () => {
+		const state = createPaletteState(grouped, [], [], [], 0, [], ["infra"]);
+		for (const ch of "-seo") handlePaletteInput(state, ch);
+		assert.ok(!state.displayItems.some(i => i.skill?.namespace === "infra"));
+		assert.equal(state.displayItems.find(i => i.namespace === "infra")?.collapsed, true);
+	});
+});
+
+describe("query editing", () => {
+	it("← and → move the cursor once there is a query, typing inserts there", () => {
+		const state = createPaletteState(testSkills, [], []);
+		for (const ch of "brve") handlePaletteInput(state, ch);
+		handlePaletteInput(state, KEYS.left);
+		handlePaletteInput(state, KEYS.left);
+		handlePaletteInput(state, "a");
+		assert.equal(state.query, "brave");
+		assert.equal(state.cursor, 3);
+		assert.equal(state.preview, null);
+	});
+
+	it("pastes multi-character input into the query", () => {
+		const state = createPaletteState(testSkills, [], []);
+		handlePaletteInput(state, "\x1b[200~brave-search\x1b[201~");
+		assert.equal(state.query, "brave-search");
+		assert.equal(state.displayItems[state.selectedIndex].skill?.name, "brave-search");
+	});
+
+	it("ctrl+w deletes the previous word", () => {
+		const state = createPaletteState(testSkills, [], []);
+		handlePaletteInput(state, "src:home ad");
+		handlePaletteInput(state, "\u0017");
+		assert.equal(state.query, "src:home ");
+	});
+
+	it("↑ at the top of the list recalls earlier queries, newest first", () => {
+		const state = createPaletteState(testSkills, [], [], [], 0, [], [], ["fizzy", "ns:search"]);
+		handlePaletteInput(state, KEYS.up);
+		assert.equal(state.query, "fizzy");
+		handlePaletteInput(state, KEYS.up);
+		assert.equal(state.query, "ns:search");
+		assert.equal(state.cursor, "ns:search".length);
+	});
+
+	it("↓ steps forward through recalled queries and back to the draft", () => {
+		const state = createPaletteState(testSkills, [], [], [], 0, [], [], ["fizzy", "ns:search"]);
+		handlePaletteInput(state, "bra");
+		handlePaletteInput(state, KEYS.up);
+		handlePaletteInput(state, KEYS.up);
+		assert.equal(state.query, "ns:search");
+		handlePaletteInput(state, KEYS.down);
+		assert.equal(state.query, "fizzy");
+		handlePaletteInput(state, KEYS.down);
+		assert.equal(state.query, "bra");
+		assert.equal(state.cursor, "bra".length);
+		// Back on the draft, ↓ moves the selection again
+		handlePaletteInput(state, KEYS.down);
+		assert.equal(state.query, "bra");
+	});
+
+	it("↓ after recalling a query moves through its results first", () => {
+		const state = createPaletteState(testSkills, [], [], [], 0, [], [], ["desc"]);
+		handlePaletteInput(state, KEYS.up);
+		assert.equal(state.query, "desc");
+		const rows = state.displayItems.length;
+		assert.ok(rows > 1);
+		for (let i = 1; i < rows; i++) {
+			handlePaletteInput(state, KEYS.down);
+			assert.equal(state.query, "desc");
+			assert.equal(state.selectedIndex, i);
+		}
+		// Past the last result ↓ steps forward, here back to the empty draft
+		handlePaletteInput(state, KEYS.down);
+		assert.equal(state.query, "");
+	});
+
+	it("↑ below the top still moves the selection", () => {
+		const state = createPaletteState(testSkills, [], [], [], 0, [], [], ["fizzy"]);
+		handlePaletteInput(state, KEYS.down);
+		handlePaletteInput(state, KEYS.up);
+		assert.equal(state.query, "");
+	});
+});
+
+describe("renderPalette", () => {
+	const plainTheme = { fg: (_: string, s: string) => s, bg: (_: string, s: string) => s, bold: (s: string) => s } as unknown as Theme;
+
+	it("keeps every key hint inside the box", () => {
+		const state = makeState(testSkills[0].name);
+		const lines = renderPalette(state, 76, plainTheme);
+		for (const line of lines) assert.ok(visibleWidth(line) <= 76, line);
+		assert.ok(lines.some(line => line.includes("esc cancel")));
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { applyFilters, hasFilters, parseQuery } from "../query";
+import type { Skill } from "../types";
+
+function makeSkill(name: string, namespace: string, description = "", source: Skill["source"] = "home"): Skill {
+	return { name, namespace, description, filePath: `/fake/${name}/SKILL.md`, source };
+}
+
+const skills: Skill[] = [
+	makeSkill("deploy", "infra", "Deploy services to the cluster"),
+	makeSkill("legacy-deploy", "infra", "Old deploy scripts"),
+	makeSkill("changelog", "comms", "Write release notes from merged pull requests"),
+	makeSkill("seo", "marketing", "Search engine tweaks"),
+	makeSkill("repo-lint", "infra", "Project lint rules", "local"),
+];
+const ctx = { recents: [skills[3]], pinned: [skills[2]] };
+
+function names(query: string): string[] {
+	return applyFilters(skills, parseQuery(query), ctx).map(s => s.name);
+}
+
+describe("parseQuery", () => {
+	it("leaves plain text and namespace:query as free text", () => {
+		const parsed = parseQuery("marketing:ad creative");
+		assert.equal(parsed.text, "marketing:ad creative");
+		assert.equal(hasFilters(parsed), false);
+	});
+
+	it("keeps a backslash-escaped operator as free text", () => {
+		const parsed = parseQuery("\\ns:deploy \\-v2");
+		assert.equal(parsed.text, "ns:deploy -v2");
+		assert.equal(hasFilters(parsed), false);
+	});
+
+	it("pulls operators out of the text", () => {
+		const parsed = parseQuery('deploy -legacy ns:infra,comms desc:"to the" src:home is:pinned');
+		assert.equal(parsed.text, "deploy");
+		assert.deepEqual(parsed.exclude, ["legacy"]);
+		assert.deepEqual(parsed.namespaces, ["infra", "comms"]);
+		assert.deepEqual(parsed.descPhrases, ["to the"]);
+		assert.deepEqual(parsed.sources, ["home"]);
+		assert.deepEqual(parsed.is, ["pinned"]);
+		assert.deepEqual(parsed.tokens.map(t => t.kind), ["text", "exclude", "ns", "desc", "src", "is"]);
+	});
+
+	it("ignores operators that have no value yet", () => {
+		const parsed = parseQuery("ns:");
+		assert.deepEqual(parsed.namespaces, []);
+		assert.equal(parsed.text, "");
+	});
+});
+
+describe("applyFilters", () => {
+	it("excludes skills mentioning a negated term", () => {
+		assert.deepEqual(names("-legacy"), ["deploy", "changelog", "seo", "repo-lint"]);
+	});
+
+	it("filters by source", () => {
+		assert.deepEqual(names("src:local"), ["repo-lint"]);
+	});
+
+	it("ORs namespaces and ANDs operators", () => {
+		assert.deepEqual(names("ns:comms,marketing"), ["changelog", "seo"]);
+		assert.deepEqual(names("ns:infra src:home -legacy"), ["deploy"]);
+	});
+
+	it("matches whole namespace segments, nested ones included", () => {
+		const nested = [makeSkill("s3-sync", "infra/aws"), makeSkill("vpc", "infrastructure"), makeSkill("deploy", "infra")];
+		const filtered = (query: string) => applyFilters(nested, parseQuery(query), { recents: [], pinned: [] }).map(s => s.name);
+		assert.deepEqual(filtered("ns:infra"), ["s3-sync", "deploy"]);
+		assert.deepEqual(filtered("ns:infra/aws"), ["s3-sync"]);
+		assert.deepEqual(filtered("ns:inf"), []);
+	});
+
+	it("matches description phrases", () => {
+		assert.deepEqual(names('desc:"release notes"'), ["changelog"]);
+	});
+
+	it("filters recent and pinned skills", () => {
+		assert.deepEqual(names("is:recent"), ["seo"]);
+		assert.deepEqual(names("is:pinned"), ["changelog"]);
+	});
+});
@@ -0,0 +1,39 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { highlightChars, snippetAround, wrapParts } from "../lib/render-helpers";
+
+describe("highlightChars", () => {
+	it("styles matched runs and the text between them", () => {
+		const out = highlightChars("fizzy-cli", [0, 1, 6], s => s, s => `[${s}]`);
+		assert.equal(out, "[fi]zzy-[c]li");
+	});
+});
+
+describe("wrapParts", () => {
+	it("starts a new line rather than cutting a part", () => {
+		assert.deepEqual(wrapParts(["↑↓ nav", "tab group", "esc cancel"], "  ", 18), ["↑↓ nav  tab group", "esc cancel"]);
+		assert.deepEqual(wrapParts(["a", "b"], "  ", 10), ["a  b"]);
+	});
+});
+
+describe("snippetAround", () => {
+	const text = "Generate release notes from merged pull requests and tag the release";
+
+	it("keeps short text and its positions as they are", () => {
+		assert.deepEqual(snippetAround("short", [1], 20), { text: "short", positions: [1] });
+	});
+
+	it("cuts from the start when the match is already visible", () => {
+		const { text: snippet, positions } = snippetAround(text, [0, 1], 20);
+		assert.equal(snippet, "Generate release no…");
+		assert.deepEqual(positions, [0, 1]);
+	});
+
+	it("centers a match past the cut-off", () => {
+		const start = text.indexOf("pull");
+		const { text: snippet, positions } = snippetAround(text, [start, start + 1, start + 2, start + 3], 20);
+		assert.equal(snippet.length, 20);
+		assert.ok(snippet.startsWith("…") && snippet.endsWith("…"));
+		assert.equal(positions.map(p => snippet[p]).join(""), "pull");
+	});
+});
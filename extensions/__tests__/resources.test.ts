@@ -0,0 +1,95 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { formatManifest, isIgnored, listSkillResources, resolveLinks, withResources } from "../resources";
+import type { Skill } from "../types";
+
+describe("skill resources", () => {
+	let dir: string;
+	let skill: Skill;
+
+	function write(rel: string, content = ""): void {
+		fs.mkdirSync(path.dirname(path.join(dir, rel)), { recursive: true });
+		fs.writeFileSync(path.join(dir, rel), content);
+	}
+
+	before(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "skill-resources-"));
+		write("SKILL.md", "---\nname: deploy\ndescription: Ship it\n---\nbody");
+		write("scripts/run.sh", "x".repeat(2048));
+		write("references/api guide.md", "api");
+		write("scripts/__pycache__/run.cpython.pyc");
+		write(".env", "SECRET=1");
+		write("logs/today.log");
+		skill = { name: "deploy", namespace: "infra", description: "Ship it", filePath: path.join(dir, "SKILL.md"), source: "home" };
+	});
+
+	after(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("lists files with sizes, skipping SKILL.md, hidden files and ignored patterns", () => {
+		const { resources } = listSkillResources(skill, ["*.log"]);
+		assert.deepEqual(resources, [
+			{ path: "references/api guide.md", size: 3 },
+			{ path: "scripts/run.sh", size: 2048 },
+		]);
+	});
+
+	it("formats a manifest within its budget, counting what didn't fit", () => {
+		const listing = listSkillResources(skill, ["logs/**"]);
+		const full = formatManifest(skill, listing, 2000);
+		assert.match(full, /- scripts\/run\.sh \(2\.0 KB\)/);
+		const tight = formatManifest(skill, listing, 80 + dir.length);
+		assert.match(tight, /- … and 1 more file$/);
+	});
+
+	it("resolves relative links that exist, leaving URLs, anchors and missing files", () => {
+		const body = [
+			"Run [the script](scripts/run.sh#usage) or see [docs](https://example.com).",
+			"![diagram](missing.png) [top](#top) [guide](<references/api guide.md>)",
+			"[api]: references/api%20guide.md",
+		].join("\n");
+		const out = resolveLinks(body, dir).split("\n");
+		assert.equal(out[0], `Run [the script](${path.join(dir, "scripts/run.sh")}#usage) or see [docs](https://example.com).`);
+		assert.equal(out[1], `![diagram](missing.png) [top](#top) [guide](<${path.join(dir, "references/api guide.md")}>)`);
+		assert.equal(out[2], `[api]: <${path.join(dir, "references/api guide.md")}>`);
+	});
+
+	it("leaves links inside inline code and fenced blocks as written", () => {
+		const body = [
+			"Write `[x](scripts/run.sh)` to link, like [this](scripts/run.sh).",
+			"```md",
+			"[x](scripts/run.sh)",
+			"[id]: scripts/run.sh",
+			"```",
+		].join("\n");
+		const out = resolveLinks(body, dir).split("\n");
+		assert.equal(out[0], `Write \`[x](scripts/run.sh)\` to link, like [this](${path.join(dir, "scripts/run.sh")}).`);
+		assert.deepEqual(out.slice(1), ["```md", "[x](scripts/run.sh)", "[id]: scripts/run.sh", "```"]);
+	});
+
+	it("leaves links that point outside the skill's directory", () => {
+		const body = `[tmp](..) [sibling](../${path.basename(dir)}-other/x.md) [self](../${path.basename(dir)}/scripts/run.sh)`;
+		assert.equal(resolveLinks(body, dir), `[tmp](..) [sibling](../${path.basename(dir)}-other/x.md) [self](${path.join(dir, "scripts/run.sh")})`);
+	});
+
+	it("leaves the body alone unless configured", () => {
+		const listing = listSkillResources(skill);
+		const off = { manifest: false, resolveLinks: false, budget: 2000, ignore: [] };
+		assert.equal(withResources(skill, "see [x](scripts/run.sh)", off, listing), "see [x](scripts/run.sh)");
+		const on = withResources(skill, "see [x](scripts/run.sh)", { ...off, manifest: true, resolveLinks: true }, listing);
+		assert.match(on, new RegExp(`^see \\[x\\]\\(${dir.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}/scripts/run\\.sh\\)\\n\\nFiles in this skill`));
+	});
+});
+
+describe("isIgnored", () => {
+	it("matches names anywhere, paths from the skill root", () => {
+		assert.ok(isIgnored("a/b/cache.pyc", ["*.pyc"]));
+		assert.ok(isIgnored("fixtures/big/data.json", ["fixtures/**"]));
+		assert.ok(isIgnored("deep/fixtures/x", ["**/fixtures/*"]));
+		assert.ok(!isIgnored("src/fixtures.ts", ["fixtures/**"]));
+	});
+});
@@ -0,0 +1,197 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { CachingReader, SkillIndex, reconcileSkills } from "../skill-index";
+import type { Skill, SkillDirConfig } from "../types";
+
+describe("SkillIndex", () => {
+	let root: string;
+	let skillsDir: string;
+	let cacheFile: string;
+
+	function writeSkill(name: string, description: string, mtime?: Date): string {
+		const dir = path.join(skillsDir, "infra", name);
+		fs.mkdirSync(dir, { recursive: true });
+		const file = path.join(dir, "SKILL.md");
+		fs.writeFileSync(file, `---\nname: ${name}\ndescription: ${description}\n---\nbody`);
+		if (mtime) fs.utimesSync(file, mtime, mtime);
+		return file;
+	}
+
+	function makeIndex(): SkillIndex {
+		const dirs: SkillDirConfig[] = [{ dir: skillsDir, recursive: true, source: "home", precedence: 0 }];
+		return new SkillIndex({ cacheFile, resolveDirs: () => dirs, applyAliases: skills => skills });
+	}
+
+	beforeEach(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), "skill-index-"));
+		skillsDir = path.join(root, "skills");
+		cacheFile = path.join(root, "cache", "skill-index.json");
+	});
+
+	afterEach(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	it("loads skills and reuses a recent scan within maxAge", () => {
+		writeSkill("deploy", "Deploy things");
+		const index = makeIndex();
+		const first = index.get();
+		assert.deepEqual(first.skills.map(s => s.name), ["deploy"]);
+
+		writeSkill("rollback", "Roll back");
+		assert.equal(index.get(60_000), first, "fresh result should be reused");
+		assert.equal(index.get().skills.length, 2, "maxAge 0 revalidates");
+	});
+
+	it("trusts watchers for get() but always rescans on an explicit get(0)", () => {
+		writeSkill("deploy", "Deploy things");
+		const index = makeIndex();
+		index.setWatching(true);
+		try {
+			const first = index.get();
+			writeSkill("rollback", "Roll back");
+			// The watcher event arrives asynchronously, so get() still trusts the last scan
+			assert.equal(index.get(), first);
+			assert.equal(index.get(0).skills.length, 2);
+		} finally {
+			index.dispose();
+		}
+	});
+
+	it("notifies listeners after a watcher event even if get() rescanned in between", async () => {
+		writeSkill("deploy", "Deploy things");
+		const index = makeIndex();
+		index.get();
+		const seen: string[][] = [];
+		index.onChange(result => seen.push(result.skills.map(s => s.name)));
+		try {
+			fs.rmSync(path.join(skillsDir, "infra", "deploy"), { recursive: true });
+			(index as unknown as { handleFsEvent(): void }).handleFsEvent();
+			// The palette or a prompt reads the index before the debounce settles
+			assert.equal(index.get().skills.length, 0);
+			await new Promise(resolve => setTimeout(resolve, 300));
+			assert.deepEqual(seen, [[]]);
+		} finally {
+			index.dispose();
+		}
+	});
+
+	it("re-reads a SKILL.md when its mtime changes", () => {
+		const file = writeSkill("deploy", "Old", new Date(2020, 0, 1));
+		const index = makeIndex();
+		assert.equal(index.get().skills[0].description, "Old");
+
+		writeSkill("deploy", "New", new Date(2021, 0, 1));
+		assert.ok(fs.existsSync(file));
+		assert.equal(index.get().skills[0].description, "New");
+	});
+
+	it("keeps unchanged files cached even if their content differs", () => {
+		// Same mtime and size: the cache must win, proving the file wasn't re-read
+		const mtime = new Date(2020, 0, 1);
+		writeSkill("deploy", "AAA", mtime);
+		const index = makeIndex();
+		index.get();
+
+		writeSkill("deploy", "BBB", mtime);
+		assert.equal(index.get().skills[0].description, "AAA");
+	});
+
+	it("persists the cache for the next session", () => {
+		const mtime = new Date(2020, 0, 1);
+		writeSkill("deploy", "AAA", mtime);
+		makeIndex().get();
+		assert.ok(fs.existsSync(cacheFile));
+
+		writeSkill("deploy", "BBB", mtime);
+		assert.equal(makeIndex().get().skills[0].description, "AAA", "cold start should use the persisted cache");
+	});
+
+	it("writes the cache atomically, leaving no temp file", () => {
+		writeSkill("deploy", "Deploy things");
+		makeIndex().get();
+		assert.deepEqual(fs.readdirSync(path.dirname(cacheFile)), ["skill-index.json"]);
+		assert.equal(fs.statSync(cacheFile).mode & 0o777, 0o600);
+	});
+
+	it("keeps other projects' cache entries when pruning", () => {
+		writeSkill("deploy", "Deploy things");
+		const otherDir = path.join(root, "other", ".pi", "skills");
+		const other = new SkillIndex({
+			cacheFile,
+			resolveDirs: () => [{ dir: otherDir, recursive: true, source: "local", precedence: 0 }],
+			applyAliases: skills => skills,
+		});
+		fs.mkdirSync(path.join(otherDir, "lint"), { recursive: true });
+		fs.writeFileSync(path.join(otherDir, "lint", "SKILL.md"), "---\nname: lint\ndescription: Lint\n---\nbody");
+		other.get();
+
+		makeIndex().get();
+		const cached = JSON.parse(fs.readFileSync(cacheFile, "utf-8"));
+		assert.ok(path.join(otherDir, "lint", "SKILL.md") in cached.files);
+		assert.ok(path.join(skillsDir, "infra", "deploy", "SKILL.md") in cached.files);
+	});
+
+	it("invalidate() forces a rescan", () => {
+		writeSkill("deploy", "Deploy things");
+		const index = makeIndex();
+		index.get(60_000);
+		fs.rmSync(path.join(skillsDir, "infra", "deploy"), { recursive: true });
+		index.invalidate();
+		assert.equal(index.get(60_000).skills.length, 0);
+	});
+});
+
+describe("CachingReader", () => {
+	it("ignores a persisted cache from another version", () => {
+		const reader = new CachingReader();
+		reader.restore({ version: -1, dirs: { "/x": { mtimeMs: 1, entries: [] } }, files: {} });
+		assert.deepEqual(reader.toJSON().dirs, {});
+	});
+
+	it("drops malformed entries from a persisted cache", () => {
+		const file = { mtimeMs: 1, size: 10, file: { frontmatter: { name: "deploy", description: "d" }, tokens: 5 } };
+		const reader = new CachingReader();
+		reader.restore({
+			version: reader.toJSON().version,
+			dirs: { "/ok": { mtimeMs: 1, entries: [] }, "/bad": { mtimeMs: "1", entries: [] }, "/worse": { mtimeMs: 1, entries: [null] } },
+			files: { "/ok/SKILL.md": file, "/a/SKILL.md": { ...file, file: { tokens: 5 } }, "/b/SKILL.md": null },
+		});
+		assert.deepEqual(Object.keys(reader.toJSON().dirs), ["/ok"]);
+		assert.deepEqual(Object.keys(reader.toJSON().files), ["/ok/SKILL.md"]);
+	});
+
+	it("prunes only untouched entries under the scanned roots", () => {
+		const entry = { mtimeMs: 1, entries: [] };
+		const reader = new CachingReader();
+		reader.restore({ version: reader.toJSON().version, dirs: { "/a/skills/gone": entry, "/a/skills-old": entry, "/b/skills": entry }, files: {} });
+		reader.beginScan();
+		reader.prune(["/a/skills"]);
+		assert.deepEqual(Object.keys(reader.toJSON().dirs), ["/a/skills-old", "/b/skills"]);
+	});
+});
+
+describe("reconcileSkills", () => {
+	function makeSkill(name: string, namespace: string, filePath = `/skills/${namespace}/${name}/SKILL.md`): Skill {
+		return { name, namespace, description: `Desc for ${name}`, filePath, source: "home" };
+	}
+
+	it("swaps in fresh metadata and drops deleted skills", () => {
+		const deploy = makeSkill("deploy", "infra");
+		const gone = makeSkill("gone", "infra");
+		const updated = { ...deploy, description: "Updated" };
+
+		const { kept, removed } = reconcileSkills([deploy, gone], [updated]);
+		assert.deepEqual(kept, [updated]);
+		assert.deepEqual(removed, [gone]);
+	});
+
+	it("follows a skill renamed in place by its file path", () => {
+		const old = makeSkill("deploy", "infra");
+		const renamed = makeSkill("ship", "infra", old.filePath);
+		assert.deepEqual(reconcileSkills([old], [renamed]).kept, [renamed]);
+	});
+});
@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findSkills, lookupSkill } from "../lib/skill-key";
+import type { Skill } from "../types";
+
+function makeSkill(name: string, namespace: string, source: Skill["source"] = "home"): Skill {
+	return { name, namespace, description: `Desc for ${name}`, filePath: `/fake/${namespace}/${name}/SKILL.md`, source };
+}
+
+const skills = [makeSkill("deploy", "infra"), makeSkill("deploy", "other", "local"), makeSkill("seo", "marketing")];
+
+describe("findSkills", () => {
+	it("matches a qualified name exactly, a bare name in every namespace", () => {
+		assert.deepEqual(findSkills(skills, "other:deploy").map(s => s.source), ["local"]);
+		assert.deepEqual(findSkills(skills, "deploy").map(s => s.namespace), ["infra", "other"]);
+		assert.deepEqual(findSkills(skills, "nope"), []);
+	});
+});
+
+describe("lookupSkill", () => {
+	it("resolves a unique name", () => {
+		assert.equal(lookupSkill(skills, "seo").skill?.namespace, "marketing");
+		assert.deepEqual(lookupSkill(skills, "nope"), { skill: null, ambiguity: null });
+	});
+
+	it("never guesses between namespaces, naming the qualified options instead", () => {
+		assert.deepEqual(lookupSkill(skills, "deploy"), {
+			skill: null,
+			ambiguity: '"deploy" is ambiguous — use one of: infra:deploy [home], other:deploy [local]',
+		});
+	});
+});
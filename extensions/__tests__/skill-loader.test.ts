@@ -1,6 +1,10 @@
-import { describe, it } from "node:test";
+import { describe, it, before, after } from "node:test";
 import assert from "node:assert/strict";
-import { parseFrontmatter, deriveNamespace } from "../skill-loader";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { parseFrontmatter, deriveNamespace, loadSkillsWithDiagnostics } from "../skill-loader";
+import type { SkillDirConfig } from "../types";
 
 describe("parseFrontmatter", () => {
 	it("parses valid frontmatter with name and description", () => {
@@ -38,6 +42,60 @@ describe("parseFrontmatter", () => {
 		assert.equal(result.name, "fallback");
 		assert.equal(result.description, "");
 	});
+
+	it("parses folded multi-line descriptions", () => {
+		const result = parseFrontmatter("---\nname: test\ndescription: >\n  First line\n  second line\n---\ncontent", "fallback");
+		assert.equal(result.description, "First line second line");
+	});
+
+	it("collapses a literal block description to one line", () => {
+		const result = parseFrontmatter("---\nname: test\ndescription: |\n  First line\n\n  second   line\n---\ncontent", "fallback");
+		assert.equal(result.description, "First line second line");
+	});
+
+	it("parses quoted values containing colons", () => {
+		const result = parseFrontmatter('---\nname: "ns: odd"\ndescription: \'Use when: deploying\'\n---\n', "fallback");
+		assert.equal(result.name, "ns: odd");
+		assert.equal(result.description, "Use when: deploying");
+	});
+
+	it("handles CRLF line endings", () => {
+		const result = parseFrontmatter("---\r\nname: test\r\ndescription: A test\r\n---\r\ncontent", "fallback");
+		assert.equal(result.name, "test");
+		assert.equal(result.description, "A test");
+	});
+
+	it("reads Agent Skills spec fields, tags and aliases", () => {
+		const content = [
+			"---",
+			"name: pdf",
+			"description: Work with PDFs",
+			"license: Apache-2.0",
+			"allowed-tools: Bash(git:*) Read",
+			"metadata:",
+			"  author: team",
+			"  version: 1.2",
+			"tags: [documents, files]",
+			"aliases: pdfs, acrobat",
+			"---",
+			"body",
+		].join("\n");
+		const result = parseFrontmatter(content, "fallback");
+		assert.equal(result.license, "Apache-2.0");
+		assert.deepEqual(result.allowedTools, ["Bash(git:*)", "Read"]);
+		assert.deepEqual(result.metadata, { author: "team", version: "1.2" });
+		assert.deepEqual(result.tags, ["documents", "files"]);
+		assert.deepEqual(result.aliases, ["pdfs", "acrobat"]);
+	});
+
+	it("normalizes an explicit namespace", () => {
+		assert.equal(parseFrontmatter("---\nname: x\nnamespace: \"infra : aws/\"\n---\n", "x").namespace, "infra/aws");
+	});
+
+	it("omits absent optional fields", () => {
+		const result = parseFrontmatter("---\nname: test\ndescription: A test\n---\n", "fallback");
+		assert.deepEqual(result, { name: "test", description: "A test" });
+	});
 });
 
 describe("deriveNamespace", () => {
@@ -61,4 +119,92 @@ describe("deriveNamespace", () => {
 		const result = deriveNamespace("/projects/tools/search/brave-search");
 		assert.equal(result, "search");
 	});
+
+	it("joins every level below the scanned root into a nested namespace", () => {
+		const result = deriveNamespace("/home/user/.pi/agent/skills/infra/aws/s3-sync", undefined, "/home/user/.pi/agent/skills");
+		assert.equal(result, "infra/aws");
+	});
+});
+
+describe("loadSkillsWithDiagnostics", () => {
+	let root: string;
+
+	function writeSkill(dir: string, frontmatter: string): void {
+		fs.mkdirSync(dir, { recursive: true });
+		fs.writeFileSync(path.join(dir, "SKILL.md"), `---\n${frontmatter}\n---\nbody`);
+	}
+
+	function dirConfig(dir: string, source: "home" | "local", precedence: number): SkillDirConfig {
+		return { dir: path.join(root, dir), recursive: true, source, precedence };
+	}
+
+	before(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), "skill-loader-"));
+		writeSkill(path.join(root, "home", "infra", "deploy"), "name: deploy\ndescription: Home deploy");
+		writeSkill(path.join(root, "local", "infra", "deploy"), "name: deploy\ndescription: Local infra deploy");
+		writeSkill(path.join(root, "local", "deploy"), "name: deploy\ndescription: Local deploy");
+		writeSkill(path.join(root, "local", "no-desc"), "name: no-desc");
+		writeSkill(path.join(root, "nested", "infra", "aws", "s3-sync"), "name: s3-sync\ndescription: Sync buckets");
+		writeSkill(path.join(root, "nested", "infra", "gcp", "gcs-sync"), "name: gcs-sync\ndescription: Sync buckets\nnamespace: cloud/gcp");
+		writeSkill(path.join(root, "repo", "tools", "terraform"), "name: terraform\ndescription: Repo terraform\nnamespace: infra");
+		writeSkill(path.join(root, "repo", "infra-deploy"), "name: deploy\ndescription: Repo deploy\nnamespace: infra");
+		fs.symlinkSync(path.join(root, "missing-target"), path.join(root, "local", "dangling"));
+		// The same skill linked into a second dir is not a conflict
+		fs.mkdirSync(path.join(root, "linked"));
+		fs.symlinkSync(path.join(root, "home", "infra", "deploy"), path.join(root, "linked", "deploy"));
+	});
+
+	after(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	it("keeps same-named skills from different namespaces", () => {
+		const { skills } = loadSkillsWithDiagnostics([dirConfig("home", "home", 0), dirConfig("local", "local", 100)]);
+		const deploys = skills.filter(s => s.name === "deploy").map(s => `${s.namespace}:${s.source}`).sort();
+		assert.deepEqual(deploys, ["infra:home", "local:local"]);
+	});
+
+	it("estimates each skill's body size in tokens, frontmatter left out", () => {
+		const { skills } = loadSkillsWithDiagnostics([dirConfig("nested", "home", 0)]);
+		assert.deepEqual(skills.map(s => s.tokens), [1, 1]);
+	});
+
+	it("reports shadowed, undescribed and broken skills", () => {
+		const { skills, diagnostics } = loadSkillsWithDiagnostics([
+			dirConfig("home", "home", 0),
+			dirConfig("linked", "home", 0),
+			dirConfig("local", "local", 100),
+		]);
+
+		assert.deepEqual(skills.map(s => s.description).sort(), ["Home deploy", "Local deploy"]);
+
+		const kinds = diagnostics.map(d => d.kind).sort();
+		assert.deepEqual(kinds, ["broken-symlink", "missing-description", "shadowed"]);
+
+		const shadowed = diagnostics.find(d => d.kind === "shadowed")!;
+		assert.equal(shadowed.name, "infra:deploy");
+		assert.equal(shadowed.path, path.join(root, "local", "infra", "deploy", "SKILL.md"));
+		assert.equal(shadowed.shadowedBy, path.join(root, "home", "infra", "deploy", "SKILL.md"));
+	});
+
+	it("derives nested namespaces, unless the skill declares its own", () => {
+		const { skills } = loadSkillsWithDiagnostics([dirConfig("nested", "home", 0)]);
+		assert.deepEqual(skills.map(s => `${s.namespace}:${s.name}`).sort(), ["cloud/gcp:gcs-sync", "infra/aws:s3-sync"]);
+	});
+
+	it("honours a local skill's namespace, but never over a home skill of the same key", () => {
+		const { skills, diagnostics } = loadSkillsWithDiagnostics([dirConfig("home", "home", 0), dirConfig("repo", "local", 100)]);
+		assert.ok(skills.some(s => s.namespace === "infra" && s.name === "terraform" && s.source === "local"));
+		assert.equal(skills.find(s => s.name === "deploy")?.source, "home");
+		assert.equal(diagnostics.find(d => d.kind === "shadowed")?.path, path.join(root, "repo", "infra-deploy", "SKILL.md"));
+	});
+
+	it("reports configured dirs that don't exist, but not missing built-ins", () => {
+		const { diagnostics } = loadSkillsWithDiagnostics([
+			dirConfig("nope", "home", 0),
+			{ ...dirConfig("also-nope", "home", 0), id: "codex" },
+		]);
+		assert.deepEqual(diagnostics.map(d => d.kind), ["missing-dir"]);
+		assert.equal(diagnostics[0].path, path.join(root, "nope"));
+	});
 });
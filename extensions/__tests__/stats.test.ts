@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { visibleWidth } from "@mariozechner/pi-tui";
+import { buildStatsReport, buildUsageStats, statsToCsv, statsToJson } from "../stats";
+import type { Skill, SkillUsage } from "../types";
+import type { UsageFile } from "../usage";
+
+function makeSkill(name: string, namespace: string): Skill {
+	return { name, namespace, description: `Desc for ${name}`, filePath: `/fake/${name}/SKILL.md`, source: "home" };
+}
+
+function usage(name: string, namespace: string, count: number, timestamp = Date.UTC(2026, 0, 1)): SkillUsage {
+	return { name, namespace, count, timestamp };
+}
+
+const skills = [
+	makeSkill("deploy", "infra"),
+	makeSkill("rollback", "infra"),
+	makeSkill("seo", "marketing"),
+	makeSkill("ad-creative", "marketing"),
+];
+
+const usageFile: UsageFile = {
+	version: 2,
+	recents: [],
+	history: [usage("seo", "marketing", 2), usage("deploy", "infra", 7), usage("old", "legacy", 1)],
+	projects: {
+		"/work/infra": [usage("deploy", "infra", 5)],
+		"/work/site": [usage("deploy", "infra", 2), usage("seo", "marketing", 2)],
+	},
+};
+
+describe("buildUsageStats", () => {
+	const stats = buildUsageStats(skills, usageFile);
+
+	it("lists used skills by count with the projects they were used in", () => {
+		assert.deepEqual(stats.skills.map(s => `${s.namespace}:${s.name}`), ["infra:deploy", "marketing:seo", "legacy:old"]);
+		assert.deepEqual(stats.skills[0].projects, ["/work/infra", "/work/site"]);
+	});
+
+	it("flags history entries whose skill was removed", () => {
+		assert.equal(stats.skills.find(s => s.name === "old")?.installed, false);
+	});
+
+	it("totals namespaces and counts how many of their skills are used", () => {
+		const infra = stats.namespaces.find(n => n.namespace === "infra")!;
+		assert.deepEqual({ skills: infra.skills, used: infra.used, count: infra.count }, { skills: 2, used: 1, count: 7 });
+	});
+
+	it("lists the projects each namespace was used in", () => {
+		const projects = (namespace: string) => stats.namespaces.find(n => n.namespace === namespace)!.projects;
+		assert.deepEqual(projects("infra"), ["/work/infra", "/work/site"]);
+		assert.deepEqual(projects("marketing"), ["/work/site"]);
+		assert.deepEqual(projects("legacy"), []);
+	});
+
+	it("reports installed skills that were never used", () => {
+		assert.deepEqual(stats.neverUsed.map(s => s.name), ["rollback", "ad-creative"]);
+	});
+});
+
+describe("stats export", () => {
+	const stats = buildUsageStats(skills, usageFile);
+
+	it("writes one CSV row per skill, never-used included", () => {
+		const lines = statsToCsv(stats).trim().split("\n");
+		assert.equal(lines[0], "namespace,name,count,last_used,projects,installed");
+		assert.equal(lines.length, 1 + 5);
+		assert.equal(lines[1], "infra,deploy,7,2026-01-01T00:00:00.000Z,/work/infra;/work/site,true");
+		assert.ok(lines.includes("infra,rollback,0,,,true"));
+	});
+
+	it("quotes CSV fields that need it", () => {
+		const quoted = buildUsageStats([makeSkill('say "hi", twice', "misc")], { ...usageFile, history: [], projects: {} });
+		assert.ok(statsToCsv(quoted).includes('misc,"say ""hi"", twice",0'));
+	});
+
+	it("exports JSON with ISO timestamps", () => {
+		const data = JSON.parse(statsToJson(stats));
+		assert.equal(data.skills[0].lastUsed, "2026-01-01T00:00:00.000Z");
+		assert.deepEqual(data.neverUsed, ["infra:rollback", "marketing:ad-creative"]);
+		assert.deepEqual(data.namespaces.find((n: { namespace: string }) => n.namespace === "infra").projects, ["/work/infra", "/work/site"]);
+	});
+
+	it("renders a table row per used skill", () => {
+		const rows = buildStatsReport(stats, Date.UTC(2026, 0, 4));
+		const deploy = rows.find(r => r.text.startsWith("infra:deploy"))!;
+		assert.match(deploy.text, /\s7\s+3d ago\s+infra, site$/);
+		const infra = rows.find(r => r.text.startsWith("infra "))!;
+		assert.match(infra.text, /\s7\s+3d ago\s+1\/2\s+infra, site$/);
+	});
+
+	it("aligns columns by terminal width and drops control characters", () => {
+		const odd = buildUsageStats([makeSkill("部署", "infra"), makeSkill("evil\x1b[31m", "infra")], {
+			...usageFile,
+			history: [usage("部署", "infra", 2), usage("evil\x1b[31m", "infra", 1)],
+			projects: {},
+		});
+		const rows = buildStatsReport(odd, Date.UTC(2026, 0, 4)).slice(1, 3).map(r => r.text);
+		assert.ok(rows.every(text => !text.includes("\x1b")));
+		assert.deepEqual(rows.map(text => visibleWidth(text.slice(0, text.indexOf("3d ago")))), [49, 49]);
+	});
+
+	it("shows minutes for a use within the hour", () => {
+		const lastUsedIn = (ms: number) => buildStatsReport(stats, Date.UTC(2026, 0, 1) + ms).find(r => r.text.startsWith("infra:deploy"))!.text;
+		assert.match(lastUsedIn(30_000), /\s7\s+just now\s/);
+		assert.match(lastUsedIn(5 * 60_000), /\s7\s+5m ago\s/);
+		assert.match(lastUsedIn(59 * 60_000), /\s7\s+59m ago\s/);
+		assert.match(lastUsedIn(60 * 60_000), /\s7\s+1h ago\s/);
+	});
+});
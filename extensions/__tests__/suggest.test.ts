@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { matchSkills } from "../fuzzy";
+import { MAX_SUGGESTIONS, scoreSkillForPrompt, suggestSkills } from "../suggest";
+import type { Skill } from "../types";
+
+function skill(name: string, namespace: string, description: string, extra: Partial<Skill> = {}): Skill {
+	return { name, namespace, description, filePath: `/skills/${namespace}/${name}/SKILL.md`, source: "home", ...extra };
+}
+
+const skills = [
+	skill("terraform", "infra", "Plan and apply Terraform changes safely", { aliases: ["tf"] }),
+	skill("ad-creative", "marketing", "Write ad copy and creative briefs for campaigns"),
+	skill("brave-search", "tools", "Search the web with the Brave API", { tags: ["web", "search"] }),
+	skill("pdf", "docs", "Extract text and tables from PDF files"),
+];
+
+describe("scoreSkillForPrompt", () => {
+	it("is most confident when the prompt names the skill, whatever the separators", () => {
+		const named = scoreSkillForPrompt(skills[1], "write some ad creative for the launch");
+		assert.ok(named.confidence > 0.9);
+		assert.ok(named.matched.includes("ad-creative"));
+	});
+
+	it("adds up aliases, tags and description words", () => {
+		const alias = scoreSkillForPrompt(skills[0], "run tf plan for staging");
+		assert.deepEqual(alias.matched.sort(), ["plan", "tf"]);
+		assert.ok(alias.confidence > scoreSkillForPrompt(skills[0], "run tf for staging").confidence);
+		assert.ok(scoreSkillForPrompt(skills[2], "search the web for node release notes").confidence > 0.8);
+	});
+
+	it("counts description words as little as the palette does", () => {
+		const desc = scoreSkillForPrompt(skills[3], "the tables");
+		assert.deepEqual(desc.matched, ["tables"]);
+		assert.ok(desc.confidence > 0 && desc.confidence < scoreSkillForPrompt(skills[2], "the web").confidence);
+	});
+
+	it("ignores filler words and unrelated prompts", () => {
+		assert.equal(scoreSkillForPrompt(skills[3], "fix the failing test in parser.ts").confidence, 0);
+		assert.equal(scoreSkillForPrompt(skills[1], "the and for with").confidence, 0);
+	});
+});
+
+describe("suggestSkills", () => {
+	const ranked = [
+		skill("search", "tools", "Find things"),
+		skill("search-code", "tools", "Grep a repository"),
+		skill("brave", "tools", "Web search through Brave", { aliases: ["search-web"] }),
+		skill("lookup", "tools", "Answer questions", { tags: ["search"] }),
+		skill("notes", "docs", "Keep notes of what you search"),
+		skill("deploy", "infra", "Ship a release", { aliases: ["release"] }),
+		skill("changelog", "docs", "Write release notes"),
+	];
+
+	it("ranks a one-word prompt as the palette ranks that query", () => {
+		for (const word of ["search", "release", "notes"]) {
+			const palette = matchSkills(ranked, word).slice(0, MAX_SUGGESTIONS).map(m => m.skill.name);
+			assert.deepEqual(suggestSkills(ranked, word, 0).map(s => s.skill.name), palette, word);
+		}
+	});
+
+	it("keeps the palette's order between name, alias, tag and description matches", () => {
+		const palette = matchSkills(ranked, "search");
+		assert.equal(palette.length, 5);
+		const order = palette.map(m => scoreSkillForPrompt(m.skill, "search").confidence);
+		assert.deepEqual([...order].sort((a, b) => b - a), order);
+		assert.ok(order.every(c => c > 0));
+	});
+
+	it("ranks skills above the threshold, most confident first", () => {
+		const suggestions = suggestSkills(skills, "extract the tables from report.pdf and search the web", 0.5);
+		assert.deepEqual(suggestions.map(s => s.skill.name), ["pdf", "brave-search"]);
+	});
+
+	it("leaves out excluded skills, weak matches and empty prompts", () => {
+		assert.deepEqual(suggestSkills(skills, "report.pdf please", 0.5, [skills[3]]), []);
+		assert.deepEqual(suggestSkills(skills, "apply the changes", 0.5), []);
+		assert.deepEqual(suggestSkills(skills, "  ", 0), []);
+	});
+
+	it("caps the number of suggestions", () => {
+		const many = Array.from({ length: 5 }, (_, i) => skill(`deploy-${i}`, "infra", "Deploy services"));
+		assert.equal(suggestSkills(many, "deploy services", 0.1).length, MAX_SUGGESTIONS);
+	});
+
+	it("stays fast on a huge prompt", () => {
+		const description = Array.from({ length: 30 }, (_, i) => `keyword${i}`).join(" ");
+		const many = Array.from({ length: 150 }, (_, i) => skill(`skill-${i}`, `ns${i % 10}`, description, { aliases: [`alias${i}`] }));
+		const prompt = Array.from({ length: 8000 }, (_, i) => `word${i}`).join(" ");
+		const started = Date.now();
+		suggestSkills(many, prompt, 0.5);
+		assert.ok(Date.now() - started < 500, `took ${Date.now() - started}ms`);
+	});
+});
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_TEMPLATE, TEMPLATE_PRESETS, renderTemplate, resolveTemplate, templateVars, usesPlaceholder } from "../template";
+import type { Skill } from "../types";
+
+const skill: Skill = {
+	name: "deploy",
+	namespace: "infra/aws",
+	description: "Ship it",
+	filePath: "/skills/infra/aws/deploy/SKILL.md",
+	source: "home",
+};
+
+const vars = templateVars(skill, { body: "Run make deploy.", frontmatter: "name: deploy" }, ["scripts/run.sh", "notes.md"]);
+
+describe("renderTemplate", () => {
+	it("renders the default template as before", () => {
+		assert.equal(renderTemplate(DEFAULT_TEMPLATE, vars), `<skill name="infra/aws:deploy">\nRun make deploy.\n</skill>`);
+	});
+
+	it("fills every placeholder", () => {
+		const out = renderTemplate("{{name}}|{{namespace}}|{{description}}|{{path}}|{{dir}}|{{frontmatter}}\n{{resources}}", vars);
+		assert.equal(out, "deploy|infra/aws|Ship it|/skills/infra/aws/deploy/SKILL.md|/skills/infra/aws/deploy|name: deploy\n- scripts/run.sh\n- notes.md");
+	});
+
+	it("escapes values with the xml filter", () => {
+		const tricky = templateVars({ ...skill, name: 'a"b<c>' }, { body: "", frontmatter: null });
+		assert.equal(renderTemplate("{{ name | xml }}", tricky), "a&quot;b&lt;c&gt;");
+	});
+
+	it("leaves unknown placeholders and placeholders inside values alone", () => {
+		const body = templateVars(skill, { body: "literal {{key}}", frontmatter: null });
+		assert.equal(renderTemplate("{{body}} {{nope}}", body), "literal {{key}} {{nope}}");
+	});
+});
+
+describe("resolveTemplate", () => {
+	it("accepts a preset name or a template with placeholders", () => {
+		assert.equal(resolveTemplate("markdown"), TEMPLATE_PRESETS.markdown);
+		assert.equal(resolveTemplate("# {{key}}\n{{body}}"), "# {{key}}\n{{body}}");
+	});
+
+	it("falls back to the default for anything else", () => {
+		assert.equal(resolveTemplate(null), DEFAULT_TEMPLATE);
+		assert.equal(resolveTemplate("toString"), DEFAULT_TEMPLATE);
+		assert.equal(resolveTemplate("no placeholders"), DEFAULT_TEMPLATE);
+	});
+
+	it("knows which placeholders a template uses", () => {
+		assert.ok(usesPlaceholder("{{resources}}", "resources"));
+		assert.ok(!usesPlaceholder(TEMPLATE_PRESETS.system, "resources"));
+	});
+});
@@ -0,0 +1,63 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { estimateTokens, fitToBudget, formatTokens, outlineBody, truncateToTokens } from "../tokens";
+
+const body = [
+	"# Deploy",
+	"Run the deploy script from the repo root.",
+	"```sh",
+	"# not a heading",
+	"make deploy",
+	"```",
+	"## Rollback",
+	"Revert the release tag and redeploy.",
+].join("\n");
+
+describe("estimateTokens / formatTokens", () => {
+	it("estimates about four characters per token", () => {
+		assert.equal(estimateTokens(""), 0);
+		assert.equal(estimateTokens("abcd"), 1);
+		assert.equal(estimateTokens("abcde"), 2);
+	});
+
+	it("shortens large counts", () => {
+		assert.deepEqual([850, 1000, 1240, 12_400].map(formatTokens), ["850", "1k", "1.2k", "12k"]);
+	});
+});
+
+describe("outlineBody", () => {
+	it("keeps headings, skipping # lines in code blocks", () => {
+		assert.equal(outlineBody(body), "# Deploy\n## Rollback");
+	});
+});
+
+describe("truncateToTokens", () => {
+	it("keeps whole lines and closes a code block it cut into", () => {
+		assert.equal(truncateToTokens(body, 20), "# Deploy\nRun the deploy script from the repo root.\n```sh\n# not a heading\n```");
+	});
+
+	it("returns short bodies unchanged", () => {
+		assert.equal(truncateToTokens(body, 1000), body);
+	});
+});
+
+describe("fitToBudget", () => {
+	it("leaves a body that fits, or any body when only warning", () => {
+		assert.deepEqual(fitToBudget(body, 1000, "truncate", "/s/SKILL.md"), { body, shrunk: null });
+		assert.deepEqual(fitToBudget(body, 5, "warn", "/s/SKILL.md"), { body, shrunk: null });
+	});
+
+	it("truncates or outlines past the budget, pointing at the file", () => {
+		const truncated = fitToBudget(body, 5, "truncate", "/s/SKILL.md");
+		assert.equal(truncated.shrunk, "truncate");
+		assert.match(truncated.body, /^# Deploy\n\n\[Truncated to fit the token budget — read \/s\/SKILL\.md for the rest\.\]$/);
+
+		const outlined = fitToBudget(body, 10, "outline", "/s/SKILL.md");
+		assert.equal(outlined.shrunk, "outline");
+		assert.match(outlined.body, /^# Deploy\n## Rollback\n\n\[Section headings only/);
+	});
+
+	it("still says where the skill is when nothing fits", () => {
+		assert.match(fitToBudget(body, 0, "truncate", "/s/SKILL.md").body, /^\[Truncated/);
+	});
+});
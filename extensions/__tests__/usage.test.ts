@@ -0,0 +1,262 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { findProjectRoot, flushUnsavedUsage, loadUsageFromDisk, mergeUsage, migrateUsage, recordUsage, USAGE_VERSION } from "../usage";
+import type { PaletteState, Skill, SkillUsage } from "../types";
+
+function usage(name: string, count: number, timestamp = 1000): SkillUsage {
+	return { name, namespace: "tools", count, timestamp };
+}
+
+function makeSkill(name: string): Skill {
+	return { name, namespace: "tools", description: `Desc for ${name}`, filePath: `/fake/${name}/SKILL.md`, source: "home" };
+}
+
+describe("usage persistence", () => {
+	let root: string;
+	let file: string;
+
+	beforeEach(() => {
+		root = fs.mkdtempSync(path.join(os.tmpdir(), "skill-usage-"));
+		file = path.join(root, "usage.json");
+	});
+
+	afterEach(() => {
+		fs.rmSync(root, { recursive: true, force: true });
+	});
+
+	/** A pi session: its own in-memory state, loaded from the shared file at startup */
+	function session(projectRoot: string | null): PaletteState {
+		const loaded = loadUsageFromDisk(projectRoot, file);
+		return { queuedSkills: [], pinnedSkills: [], recentSkills: loaded.global, projectRecentSkills: loaded.project, unsavedUsage: [], projectRoot, collapsedGroups: [], queryHistory: [] };
+	}
+
+	function countOf(list: SkillUsage[], name: string): number | undefined {
+		return list.find(u => u.name === name)?.count;
+	}
+
+	it("keeps each project's history separate", async () => {
+		await recordUsage(session("/repo/infra"), makeSkill("deploy"), file);
+		await recordUsage(session("/repo/site"), makeSkill("seo"), file);
+
+		assert.deepEqual(loadUsageFromDisk("/repo/infra", file).project.map(u => u.name), ["deploy"]);
+		assert.deepEqual(loadUsageFromDisk("/repo/site", file).project.map(u => u.name), ["seo"]);
+		assert.equal(loadUsageFromDisk("/repo/site", file).global.length, 2);
+		assert.deepEqual(loadUsageFromDisk("/elsewhere", file).project, []);
+	});
+
+	it("merges concurrent writers instead of overwriting", async () => {
+		// Both sessions start from the same file, then write at the same time —
+		// all but one of each round wait for the lock
+		const a = session("/repo/infra");
+		const b = session("/repo/site");
+		for (let i = 0; i < 5; i++) {
+			await Promise.all([
+				recordUsage(a, makeSkill("deploy"), file),
+				recordUsage(b, makeSkill("deploy"), file),
+				recordUsage(b, makeSkill("seo"), file),
+			]);
+		}
+
+		const { global } = loadUsageFromDisk(null, file);
+		assert.equal(countOf(global, "deploy"), 10);
+		assert.equal(countOf(global, "seo"), 5);
+		assert.equal(countOf(loadUsageFromDisk("/repo/infra", file).project, "deploy"), 5);
+		assert.equal(countOf(loadUsageFromDisk("/repo/site", file).project, "seo"), 5);
+		// Each session sees the others' uses after its own next write
+		assert.ok(countOf(a.recentSkills, "seo")! >= 4);
+		assert.ok(countOf(b.recentSkills, "deploy")! >= 9);
+	});
+
+	it("merges writers in separate processes", async () => {
+		// Each process is its own pi session; they start writing at the same moment
+		const worker = `
+			const { loadUsageFromDisk, recordUsage } = await import(${JSON.stringify(path.join(__dirname, "..", "usage.ts"))});
+			const { file, root, names, startAt } = JSON.parse(process.env.USAGE_WORKER);
+			const loaded = loadUsageFromDisk(root, file);
+			const state = { queuedSkills: [], pinnedSkills: [], recentSkills: loaded.global, projectRecentSkills: loaded.project, unsavedUsage: [], projectRoot: root, collapsedGroups: [], queryHistory: [] };
+			while (Date.now() < startAt) await new Promise(resolve => setTimeout(resolve, 1));
+			for (const name of names) await recordUsage(state, { name, namespace: "tools", description: "", filePath: "", source: "home" }, file);
+		`;
+		const startAt = Date.now() + 2000;
+		const run = (root: string, names: string[]) => promisify(execFile)(process.execPath, [...process.execArgv, "--input-type=module", "-e", worker], {
+			env: { ...process.env, USAGE_WORKER: JSON.stringify({ file, root, names, startAt }) },
+			timeout: 30_000,
+		});
+		await Promise.all([
+			run("/repo/infra", Array(10).fill("deploy")),
+			run("/repo/site", Array(10).fill(["deploy", "seo"]).flat()),
+		]);
+
+		const { global } = loadUsageFromDisk(null, file);
+		assert.equal(countOf(global, "deploy"), 20);
+		assert.equal(countOf(global, "seo"), 10);
+		assert.equal(countOf(loadUsageFromDisk("/repo/infra", file).project, "deploy"), 10);
+		assert.equal(countOf(loadUsageFromDisk("/repo/site", file).project, "seo"), 10);
+	});
+
+	it("leaves no lock or temp files behind", async () => {
+		await recordUsage(session(null), makeSkill("deploy"), file);
+		assert.deepEqual(fs.readdirSync(root), ["usage.json"]);
+	});
+
+	it("breaks a stale lock left by a crashed session", async () => {
+		const lock = `${file}.lock`;
+		fs.writeFileSync(lock, "");
+		const old = new Date(Date.now() - 60_000);
+		fs.utimesSync(lock, old, old);
+
+		await recordUsage(session(null), makeSkill("deploy"), file);
+		assert.equal(countOf(loadUsageFromDisk(null, file).global, "deploy"), 1);
+		assert.ok(!fs.existsSync(lock));
+	});
+
+	it("counts in memory but doesn't write while another session holds the lock", async () => {
+		fs.writeFileSync(`${file}.lock`, "");
+		const state = session(null);
+		await recordUsage(state, makeSkill("deploy"), file);
+		assert.equal(countOf(state.recentSkills, "deploy"), 1);
+		assert.ok(!fs.existsSync(file));
+	});
+
+	it("writes a use the lock kept out with the next write", async () => {
+		const lock = `${file}.lock`;
+		fs.writeFileSync(lock, "");
+		const state = session("/repo/infra");
+		await recordUsage(state, makeSkill("deploy"), file);
+		fs.rmSync(lock);
+
+		await recordUsage(state, makeSkill("deploy"), file);
+		assert.equal(countOf(loadUsageFromDisk(null, file).global, "deploy"), 2);
+		assert.equal(countOf(loadUsageFromDisk("/repo/infra", file).project, "deploy"), 2);
+		assert.equal(countOf(state.recentSkills, "deploy"), 2);
+		assert.deepEqual(state.unsavedUsage, []);
+	});
+
+	it("flushes unsaved uses at session end", async () => {
+		const lock = `${file}.lock`;
+		fs.writeFileSync(lock, "");
+		const state = session("/repo/infra");
+		await recordUsage(state, makeSkill("deploy"), file);
+		assert.equal(await flushUnsavedUsage(state, file), false);
+		assert.ok(!fs.existsSync(file));
+
+		// Released while the flush waits — its retry gets through
+		setTimeout(() => fs.rmSync(lock), 300);
+		assert.equal(await flushUnsavedUsage(state, file), true);
+		assert.equal(countOf(loadUsageFromDisk(null, file).global, "deploy"), 1);
+		assert.equal(countOf(loadUsageFromDisk("/repo/infra", file).project, "deploy"), 1);
+		assert.deepEqual(state.unsavedUsage, []);
+	});
+
+	it("breaks a stale lock only once when several writers find it", async () => {
+		const lock = `${file}.lock`;
+		fs.writeFileSync(lock, "");
+		const old = new Date(Date.now() - 60_000);
+		fs.utimesSync(lock, old, old);
+
+		const state = session(null);
+		await Promise.all(Array.from({ length: 5 }, () => recordUsage(state, makeSkill("deploy"), file)));
+		assert.equal(countOf(loadUsageFromDisk(null, file).global, "deploy"), 5);
+		assert.deepEqual(fs.readdirSync(root), ["usage.json"]);
+	});
+
+	it("waits for a busy lock without blocking the event loop", async () => {
+		const lock = `${file}.lock`;
+		fs.writeFileSync(lock, "");
+		let ticked = false;
+		setTimeout(() => {
+			ticked = true;
+			fs.rmSync(lock);
+		}, 30);
+
+		await recordUsage(session(null), makeSkill("deploy"), file);
+		assert.ok(ticked);
+		assert.equal(countOf(loadUsageFromDisk(null, file).global, "deploy"), 1);
+	});
+
+	it("migrates the original recents-only file on the next write", async () => {
+		fs.writeFileSync(file, JSON.stringify({ recents: [usage("deploy", 3)] }));
+		assert.deepEqual(loadUsageFromDisk(null, file), { global: [usage("deploy", 3)], project: [] });
+
+		await recordUsage(session(null), makeSkill("seo"), file);
+		const written = JSON.parse(fs.readFileSync(file, "utf-8"));
+		assert.equal(written.version, USAGE_VERSION);
+		assert.deepEqual(written.history.map((u: SkillUsage) => u.name), ["seo", "deploy"]);
+		assert.deepEqual(written.recents, written.history);
+	});
+
+	it("never rewrites a file from a newer version", async () => {
+		const newer = JSON.stringify({ version: USAGE_VERSION + 1, somethingElse: true });
+		fs.writeFileSync(file, newer);
+		await recordUsage(session(null), makeSkill("deploy"), file);
+		assert.equal(fs.readFileSync(file, "utf-8"), newer);
+	});
+
+	it("keeps an unreadable file as usage.json.bak instead of overwriting it", async () => {
+		fs.writeFileSync(file, "{ not json");
+		const backup = await recordUsage(session(null), makeSkill("deploy"), file);
+
+		assert.equal(backup, `${file}.bak`);
+		assert.equal(fs.readFileSync(`${file}.bak`, "utf-8"), "{ not json");
+		assert.equal(countOf(loadUsageFromDisk(null, file).global, "deploy"), 1);
+		assert.equal(await recordUsage(session(null), makeSkill("deploy"), file), null);
+	});
+
+	it("keeps an earlier backup when usage.json breaks again", async () => {
+		fs.writeFileSync(`${file}.bak`, "first");
+		fs.writeFileSync(file, "second");
+		const backup = await recordUsage(session(null), makeSkill("deploy"), file);
+
+		assert.notEqual(backup, `${file}.bak`);
+		assert.equal(fs.readFileSync(`${file}.bak`, "utf-8"), "first");
+		assert.equal(fs.readFileSync(backup!, "utf-8"), "second");
+	});
+
+	it("finds the enclosing git root", () => {
+		const nested = path.join(root, "repo", "src", "lib");
+		fs.mkdirSync(nested, { recursive: true });
+		fs.mkdirSync(path.join(root, "repo", ".git"));
+		assert.equal(findProjectRoot(nested), path.join(root, "repo"));
+	});
+});
+
+describe("migrateUsage", () => {
+	it("keeps per-project lists and drops malformed ones", () => {
+		const migrated = migrateUsage({ history: [usage("deploy", 1)], projects: { "/a": [usage("deploy", 1)], "/b": "junk" } });
+		assert.deepEqual(Object.keys(migrated!.projects), ["/a"]);
+	});
+
+	it("drops malformed entries so later writes don't fail", () => {
+		const migrated = migrateUsage({
+			history: [null, usage("deploy", 2), { name: "seo" }, { ...usage("lint", 1), count: "1" }],
+			projects: { "/a": [42, usage("deploy", 1)] },
+		});
+		assert.deepEqual(migrated!.history, [usage("deploy", 2)]);
+		assert.deepEqual(migrated!.projects["/a"], [usage("deploy", 1)]);
+	});
+
+	it("starts empty from anything that isn't an object", () => {
+		for (const raw of [null, 42, "junk", [usage("deploy", 1)]]) {
+			assert.deepEqual(migrateUsage(raw)?.history, []);
+		}
+	});
+});
+
+describe("mergeUsage", () => {
+	it("weights uses in this project above global ones", () => {
+		const merged = mergeUsage([usage("deploy", 4), usage("seo", 6)], [usage("deploy", 4), usage("lint", 1)]);
+		const count = (name: string) => merged.find(u => u.name === name)?.count;
+		assert.ok(count("deploy")! > count("seo")!);
+		assert.equal(count("lint"), 3);
+	});
+
+	it("returns global usage untouched without project usage", () => {
+		const global = [usage("deploy", 4)];
+		assert.equal(mergeUsage(global, []), global);
+	});
+});
@@ -0,0 +1,44 @@
+import type { Skill, SkillUsage } from "./types";
+import { filterSkills, isWithinNamespace } from "./fuzzy";
+import { normalizeNamespace } from "./skill-loader";
+import { skillKey } from "./lib/skill-key";
+import { formatTokens } from "./tokens";
+
+/**
+ * Text for the `list_skills` tool — the agent's view of the palette. Skills
+ * are named by `namespace:name`, the form `load_skill` takes, and project
+ * skills are marked so the agent can tell them from the user's own.
+ */
+
+/** Most skills one `list_skills` call returns — past that the agent narrows with a query */
+export const MAX_LISTED_SKILLS = 50;
+
+export interface SkillListOptions {
+	/** Fuzzy query, as typed in the palette */
+	query?: string;
+	/** Only this namespace and those nested in it (`infra`, `infra/aws`) */
+	namespace?: string;
+}
+
+/** Skills matching the options: ranked by the query if there is one, otherwise by key */
+export function selectSkills(skills: Skill[], options: SkillListOptions, usage: SkillUsage[] = []): Skill[] {
+	let selected = skills;
+	const namespace = normalizeNamespace(options.namespace)?.toLowerCase();
+	if (namespace) selected = selected.filter(s => isWithinNamespace(s.namespace.toLowerCase(), namespace));
+	if (options.query?.trim()) return filterSkills(selected, options.query.trim(), usage);
+	return [...selected].sort((a, b) => skillKey(a).localeCompare(skillKey(b)));
+}
+
+export function formatSkillList(skills: Skill[]): string {
+	if (skills.length === 0) return "No matching skills.";
+	const shown = skills.slice(0, MAX_LISTED_SKILLS);
+	const lines = shown.map(skill => {
+		const source = skill.source === "local" ? " [local]" : "";
+		const size = skill.tokens !== undefined ? ` (~${formatTokens(skill.tokens)} tokens)` : "";
+		return `- ${skillKey(skill)}${source} — ${skill.description}${size}`;
+	});
+	if (skills.length > shown.length) lines.push(`… and ${skills.length - shown.length} more — narrow the list with a query or namespace.`);
+	if (shown.some(s => s.source === "local")) lines.push("", "[local] skills come from the current project rather than the user's own skill folders.");
+	lines.push("", "Load one with load_skill and its namespace:name.");
+	return lines.join("\n");
+}
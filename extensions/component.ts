@@ -1,33 +1,52 @@
 import type { Component, Focusable } from "@mariozechner/pi-tui";
-import type { Skill, SkillUsage, PaletteAction, Theme } from "./types";
-import { createPaletteState, handlePaletteInput, renderPalette, type PaletteRenderState } from "./screens/palette";
+import type { Skill, PaletteAction, PaletteResult, Theme } from "./types";
+import type { UsageHistory } from "./usage";
+import { createPaletteState, handlePaletteInput, renderPalette, updatePaletteSkills, type PaletteRenderState } from "./screens/palette";
+import { createReportState, handleReportInput, renderReport, type ReportRenderState, type ReportRow } from "./screens/report";
+
+export interface SkillPaletteOptions {
+	skills: Skill[];
+	/** Skills queued before the palette opened */
+	queued: Skill[];
+	usage: UsageHistory;
+	pinned: Skill[];
+	/** Load diagnostics count, shown in the footer */
+	warningCount: number;
+	collapsedGroups: string[];
+	queryHistory: string[];
+	/** Skills suggested for the last prompt, listed first */
+	suggested: Skill[];
+	theme: Theme;
+	done: (result: PaletteResult) => void;
+}
 
 export class SkillPaletteComponent implements Component, Focusable {
 	private state: PaletteRenderState;
 	private theme: Theme | null = null;
 	private inactivityTimeout: ReturnType<typeof setTimeout> | null = null;
+	private done: (result: PaletteResult) => void;
 
 	// Focusable
 	private _focused = false;
 	get focused() { return this._focused; }
 	set focused(v: boolean) { this._focused = v; }
 
-	constructor(
-		skills: Skill[],
-		queuedSkill: Skill | null,
-		recents: SkillUsage[],
-		theme: Theme,
-		private done: (skill: Skill | null, action: "select" | "unqueue" | "cancel") => void
-	) {
-		this.theme = theme;
-		this.state = createPaletteState(skills, queuedSkill?.name ?? null, recents);
+	constructor(options: SkillPaletteOptions) {
+		const { skills, queued, usage, pinned, warningCount, collapsedGroups, queryHistory, suggested } = options;
+		this.theme = options.theme;
+		this.done = options.done;
+		this.state = createPaletteState(skills, queued, usage.global, pinned, warningCount, usage.project, collapsedGroups, queryHistory, suggested);
 		this.resetInactivity();
 	}
 
+	private close(action: PaletteAction): void {
+		this.done({ action, query: this.state.query, collapsedGroups: [...this.state.collapsed].sort() });
+	}
+
 	private resetInactivity() {
 		if (this.inactivityTimeout) clearTimeout(this.inactivityTimeout);
 		this.inactivityTimeout = setTimeout(() => {
-			this.done(null, "cancel");
+			this.close({ type: "cancel" });
 		}, 60000);
 	}
 
@@ -38,18 +57,12 @@ export class SkillPaletteComponent implements Component, Focusable {
 		if (!action) return;
 
 		this.cleanup();
+		this.close(action);
+	}
 
-		switch (action.type) {
-			case "select":
-				this.done(action.skill, "select");
-				break;
-			case "unqueue":
-				this.done(action.skill, "unqueue");
-				break;
-			case "cancel":
-				this.done(null, "cancel");
-				break;
-		}
+	/** Live reload: replace the skill list without losing query or selection */
+	updateSkills(skills: Skill[], warningCount: number): void {
+		updatePaletteSkills(this.state, skills, warningCount);
 	}
 
 	render(width: number): string[] {
@@ -70,3 +83,32 @@ export class SkillPaletteComponent implements Component, Focusable {
 		this.cleanup();
 	}
 }
+
+/** Read-only scrollable report overlay (e.g. /skill doctor) */
+export class ReportComponent implements Component, Focusable {
+	private state: ReportRenderState;
+
+	// Focusable
+	private _focused = false;
+	get focused() { return this._focused; }
+	set focused(v: boolean) { this._focused = v; }
+
+	constructor(
+		title: string,
+		rows: ReportRow[],
+		private theme: Theme,
+		private done: () => void
+	) {
+		this.state = createReportState(title, rows);
+	}
+
+	handleInput(data: string): void {
+		if (handleReportInput(this.state, data) === "close") this.done();
+	}
+
+	render(width: number): string[] {
+		return renderReport(this.state, width, this.theme);
+	}
+
+	invalidate() {}
+}
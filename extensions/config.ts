@@ -0,0 +1,214 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import type { PickerConfig, Skill, SkillDiagnostic, SkillDirConfig, SkillDirEntry } from "./types";
+import { skillKey } from "./lib/skill-key";
+import { defaultResourceConfig } from "./resources";
+import { defaultTokenBudget } from "./tokens";
+import { defaultSuggestConfig } from "./suggest";
+
+export const CONFIG_FILE = path.join(os.homedir(), ".pi-skill-picker", "config.json");
+export const PROJECT_CONFIG_FILE = path.join(".pi", "skill-picker.json");
+
+// Precedence bands: home dirs scan before local ones so a repo can't shadow a trusted skill
+export const HOME_PRECEDENCE = 0;
+export const LOCAL_PRECEDENCE = 100;
+const EXTRA_HOME_PRECEDENCE = 50;
+const EXTRA_LOCAL_PRECEDENCE = 150;
+
+export function emptyConfig(): PickerConfig {
+	return { skillDirs: [], disableDefaults: false, watch: true, aliases: {}, template: null, mentions: "keep", mentionEditor: false, resources: defaultResourceConfig(), tokens: defaultTokenBudget(), suggest: defaultSuggestConfig(), tools: true };
+}
+
+/**
+ * Expand `~` and `$VAR` / `${VAR}` references, then resolve relative paths
+ * against `baseDir`. Unset variables expand to an empty string.
+ */
+export function expandPath(p: string, baseDir: string, env: NodeJS.ProcessEnv = process.env): string {
+	let expanded = p.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}|\$([A-Za-z_][A-Za-z0-9_]*)/g,
+		(_m, braced: string | undefined, bare: string | undefined) => env[braced ?? bare!] ?? "");
+	if (expanded === "~") expanded = os.homedir();
+	else if (expanded.startsWith("~/")) expanded = path.join(os.homedir(), expanded.slice(2));
+	return path.resolve(baseDir, expanded);
+}
+
+/**
+ * Validate raw JSON into a config. Unknown keys and malformed entries are dropped
+ * rather than failing the whole file.
+ */
+export function parseConfig(raw: unknown): PickerConfig {
+	const config = emptyConfig();
+	if (!raw || typeof raw !== "object") return config;
+	const data = raw as Record<string, unknown>;
+
+	if (Array.isArray(data.skillDirs)) {
+		for (const entry of data.skillDirs) {
+			if (typeof entry === "string") {
+				config.skillDirs.push({ path: entry });
+				continue;
+			}
+			if (!entry || typeof entry !== "object" || typeof entry.path !== "string") continue;
+			const dir: SkillDirEntry = { path: entry.path };
+			if (typeof entry.recursive === "boolean") dir.recursive = entry.recursive;
+			if (entry.source === "home" || entry.source === "local") dir.source = entry.source;
+			if (typeof entry.namespace === "string" && entry.namespace.trim()) dir.namespace = entry.namespace.trim();
+			if (typeof entry.precedence === "number" && Number.isFinite(entry.precedence)) dir.precedence = entry.precedence;
+			config.skillDirs.push(dir);
+		}
+	}
+
+	if (typeof data.disableDefaults === "boolean") {
+		config.disableDefaults = data.disableDefaults;
+	} else if (Array.isArray(data.disableDefaults)) {
+		config.disableDefaults = data.disableDefaults.filter((id): id is string => typeof id === "string");
+	}
+
+	if (typeof data.watch === "boolean") config.watch = data.watch;
+	if (typeof data.tools === "boolean") config.tools = data.tools;
+	if (typeof data.mentionEditor === "boolean") config.mentionEditor = data.mentionEditor;
+	if (typeof data.template === "string" && data.template.trim()) config.template = data.template;
+	if (data.mentions === "keep" || data.mentions === "strip" || data.mentions === "off") config.mentions = data.mentions;
+	else if (data.mentions === false) config.mentions = "off";
+
+	if (data.resources && typeof data.resources === "object" && !Array.isArray(data.resources)) {
+		const res = data.resources as Record<string, unknown>;
+		if (typeof res.manifest === "boolean") config.resources.manifest = res.manifest;
+		if (typeof res.resolveLinks === "boolean") config.resources.resolveLinks = res.resolveLinks;
+		if (typeof res.budget === "number" && Number.isFinite(res.budget) && res.budget > 0) config.resources.budget = res.budget;
+		if (Array.isArray(res.ignore)) {
+			config.resources.ignore = res.ignore.filter((p): p is string => typeof p === "string" && p.trim() !== "").map(p => p.trim());
+		}
+	}
+
+	if (data.tokens && typeof data.tokens === "object" && !Array.isArray(data.tokens)) {
+		const tokens = data.tokens as Record<string, unknown>;
+		// false or 0 turns the budget off
+		if (typeof tokens.budget === "number" && Number.isFinite(tokens.budget) && tokens.budget > 0) config.tokens.budget = Math.floor(tokens.budget);
+		else if (tokens.budget === false || tokens.budget === 0 || tokens.budget === null) config.tokens.budget = null;
+		if (tokens.overflow === "warn" || tokens.overflow === "truncate" || tokens.overflow === "outline") config.tokens.overflow = tokens.overflow;
+	}
+
+	const isConfidence = (value: unknown): value is number => typeof value === "number" && value > 0 && value <= 1;
+	if (data.suggest === false) {
+		config.suggest.enabled = false;
+	} else if (data.suggest && typeof data.suggest === "object" && !Array.isArray(data.suggest)) {
+		const suggest = data.suggest as Record<string, unknown>;
+		if (typeof suggest.enabled === "boolean") config.suggest.enabled = suggest.enabled;
+		if (isConfidence(suggest.threshold)) config.suggest.threshold = suggest.threshold;
+		if (isConfidence(suggest.autoInject)) config.suggest.autoInject = suggest.autoInject;
+	}
+
+	if (data.aliases && typeof data.aliases === "object" && !Array.isArray(data.aliases)) {
+		for (const [target, value] of Object.entries(data.aliases)) {
+			const list = typeof value === "string" ? value.split(",") : Array.isArray(value) ? value : [];
+			const aliases = list.filter((a): a is string => typeof a === "string").map(a => a.trim()).filter(Boolean);
+			if (aliases.length > 0) config.aliases[target] = aliases;
+		}
+	}
+
+	return config;
+}
+
+function readConfigFile(filePath: string, diagnostics?: SkillDiagnostic[]): PickerConfig {
+	let text: string;
+	try {
+		text = fs.readFileSync(filePath, "utf-8");
+	} catch {
+		// No config file is the normal case
+		return emptyConfig();
+	}
+	try {
+		return parseConfig(JSON.parse(text));
+	} catch (err) {
+		diagnostics?.push({ kind: "invalid-config", path: filePath, message: `Invalid JSON: ${(err as Error).message}` });
+		return emptyConfig();
+	}
+}
+
+export function loadConfig(diagnostics?: SkillDiagnostic[]): PickerConfig {
+	return readConfigFile(CONFIG_FILE, diagnostics);
+}
+
+export function loadProjectConfig(cwd = process.cwd(), diagnostics?: SkillDiagnostic[]): PickerConfig {
+	return readConfigFile(path.join(cwd, PROJECT_CONFIG_FILE), diagnostics);
+}
+
+export function defaultSkillDirs(cwd = process.cwd()): SkillDirConfig[] {
+	const home = os.homedir();
+	return [
+		{ id: "codex", dir: path.join(home, ".codex", "skills"), recursive: true, source: "home", precedence: HOME_PRECEDENCE },
+		{ id: "claude", dir: path.join(home, ".claude", "skills"), recursive: false, source: "home", precedence: HOME_PRECEDENCE },
+		{ id: "pi-agent", dir: path.join(home, ".pi", "agent", "skills"), recursive: true, source: "home", precedence: HOME_PRECEDENCE },
+		{ id: "pi", dir: path.join(home, ".pi", "skills"), recursive: true, source: "home", precedence: HOME_PRECEDENCE },
+		{ id: "project-claude", dir: path.join(cwd, ".claude", "skills"), recursive: false, source: "local", precedence: LOCAL_PRECEDENCE },
+		{ id: "project-pi", dir: path.join(cwd, ".pi", "skills"), recursive: true, source: "local", precedence: LOCAL_PRECEDENCE },
+	];
+}
+
+function isDisabled(disable: boolean | string[], id: string): boolean {
+	return disable === true || (Array.isArray(disable) && disable.includes(id));
+}
+
+/**
+ * Merge defaults with the home and project configs into a scan list ordered by precedence.
+ *
+ * The project config lives in the repo, so it is untrusted: its dirs are always
+ * `local`, can't be ordered ahead of home dirs, and it can only disable the
+ * project-level defaults.
+ */
+export function resolveSkillDirs(
+	home: PickerConfig,
+	project: PickerConfig,
+	cwd = process.cwd()
+): SkillDirConfig[] {
+	const dirs: SkillDirConfig[] = [];
+
+	for (const dir of defaultSkillDirs(cwd)) {
+		if (isDisabled(home.disableDefaults, dir.id!)) continue;
+		if (dir.source === "local" && isDisabled(project.disableDefaults, dir.id!)) continue;
+		dirs.push(dir);
+	}
+
+	for (const entry of home.skillDirs) {
+		const source = entry.source ?? "home";
+		dirs.push({
+			dir: expandPath(entry.path, path.dirname(CONFIG_FILE)),
+			recursive: entry.recursive ?? true,
+			source,
+			namespace: entry.namespace,
+			precedence: entry.precedence ?? (source === "home" ? EXTRA_HOME_PRECEDENCE : EXTRA_LOCAL_PRECEDENCE),
+		});
+	}
+
+	for (const entry of project.skillDirs) {
+		dirs.push({
+			dir: expandPath(entry.path, cwd),
+			recursive: entry.recursive ?? true,
+			source: "local",
+			namespace: entry.namespace,
+			precedence: Math.max(LOCAL_PRECEDENCE, entry.precedence ?? EXTRA_LOCAL_PRECEDENCE),
+		});
+	}
+
+	// Stable sort keeps file order within the same precedence
+	return dirs.sort((a, b) => a.precedence - b.precedence);
+}
+
+export function getSkillDirs(cwd = process.cwd(), diagnostics?: SkillDiagnostic[]): SkillDirConfig[] {
+	return resolveSkillDirs(loadConfig(diagnostics), loadProjectConfig(cwd, diagnostics), cwd);
+}
+
+/**
+ * Add config-defined aliases to matching skills. Home config aliases apply to
+ * any skill; the untrusted project config can only alias its own (local) skills.
+ */
+export function applyUserAliases(skills: Skill[], home: PickerConfig, project: PickerConfig): Skill[] {
+	const lookup = (config: PickerConfig, skill: Skill) =>
+		[...(config.aliases[skillKey(skill)] ?? []), ...(config.aliases[skill.name] ?? [])];
+
+	return skills.map(skill => {
+		const extra = [...lookup(home, skill), ...(skill.source === "local" ? lookup(project, skill) : [])];
+		if (extra.length === 0) return skill;
+		return { ...skill, aliases: [...new Set([...(skill.aliases ?? []), ...extra])] };
+	});
+}
@@ -0,0 +1,61 @@
+import * as fs from "node:fs";
+import type { SkillDiagnostic, SkillDiagnosticKind, SkillDirConfig, SkillLoadResult } from "./types";
+import type { ReportRow } from "./screens/report";
+
+const KIND_LABELS: Record<SkillDiagnosticKind, string> = {
+	"invalid-config": "Invalid config files",
+	"missing-dir": "Missing directories",
+	"unreadable-dir": "Unreadable directories",
+	"broken-symlink": "Broken symlinks",
+	"unreadable-file": "Unreadable SKILL.md files",
+	"missing-description": "Skipped: no description",
+	"shadowed": "Skipped: name already taken",
+};
+
+/**
+ * Build the /skill doctor report: scanned dirs, then diagnostics grouped by kind.
+ */
+export function buildDoctorReport(result: SkillLoadResult, dirs: SkillDirConfig[]): ReportRow[] {
+	const rows: ReportRow[] = [];
+	const { skills, diagnostics } = result;
+
+	rows.push({ text: "Scanned directories", style: "heading" });
+	for (const dir of dirs) {
+		const exists = fs.existsSync(dir.dir);
+		const tags = [dir.source, dir.recursive ? "recursive" : "flat", `precedence ${dir.precedence}`];
+		if (dir.namespace) tags.push(`namespace ${dir.namespace}`);
+		rows.push({ text: `  ${exists ? "✓" : "·"} ${dir.dir}  (${tags.join(", ")})`, style: exists ? undefined : "dim" });
+	}
+	rows.push({ text: "" });
+
+	const local = skills.filter(s => s.source === "local").length;
+	rows.push({ text: `${skills.length} skills loaded (${skills.length - local} home, ${local} local)`, style: "success" });
+
+	if (diagnostics.length === 0) {
+		rows.push({ text: "No problems found", style: "success" });
+		return rows;
+	}
+
+	rows.push({ text: `${diagnostics.length} problem${diagnostics.length === 1 ? "" : "s"} found`, style: "warning" });
+
+	const byKind = new Map<SkillDiagnosticKind, SkillDiagnostic[]>();
+	for (const d of diagnostics) {
+		const list = byKind.get(d.kind) || [];
+		list.push(d);
+		byKind.set(d.kind, list);
+	}
+
+	for (const kind of Object.keys(KIND_LABELS) as SkillDiagnosticKind[]) {
+		const list = byKind.get(kind);
+		if (!list) continue;
+		rows.push({ text: "" });
+		rows.push({ text: `${KIND_LABELS[kind]} (${list.length})`, style: "heading" });
+		for (const d of list) {
+			rows.push({ text: `  ${d.path}`, style: "warning" });
+			if (d.shadowedBy) rows.push({ text: `    shadowed by ${d.shadowedBy}`, style: "dim" });
+			else rows.push({ text: `    ${d.message}`, style: "dim" });
+		}
+	}
+
+	return rows;
+}
@@ -1,7 +1,33 @@
-import type { Skill, DisplayItem, SkillUsage } from "./types";
+import type { Skill, DisplayItem, KeywordMatch, MatchField, MatchHighlights, SkillUsage } from "./types";
+import { sameSkill, skillKey } from "./lib/skill-key";
+import { MAX_PROJECT_RECENTS, MAX_RECENTS } from "./usage";
+
+// A use counts half as much after a week
+const FRECENCY_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+// Most a frecency boost can add — less than the gap between match tiers
+const MAX_FRECENCY_BOOST = 90;
+// Alias and tag matches score below the same match on the name
+export const ALIAS_WEIGHT = 0.8;
+export const TAG_WEIGHT = 0.6;
+/** Group keys of the recent sections — prefixed so no real namespace can share them */
+export const RECENT_GROUP = "\0recent";
+export const PROJECT_RECENT_GROUP = "\0project-recent";
+export const SUGGESTED_GROUP = "\0suggested";
+
+export interface TextMatch {
+	score: number;
+	/** Indices of the matched characters in the text, for highlighting */
+	positions: number[];
+}
+
+const NO_MATCH: TextMatch = { score: 0, positions: [] };
+
+function range(start: number, length: number): number[] {
+	return Array.from({ length }, (_, i) => start + i);
+}
 
 /**
- * Score how well a query matches text.
+ * Match a query against text, returning the score and matched positions.
  *
  * Tiers (highest wins):
  *   1. Exact match (text === query)           → 10000
@@ -11,148 +37,343 @@ import type { Skill, DisplayItem, SkillUsage } from "./types";
  *      with enough consecutive runs           → 1-500
  *   5. No match                               → 0
  */
-export function scoreMatch(query: string, text: string): number {
+export function matchText(query: string, text: string): TextMatch {
 	const lq = query.toLowerCase();
 	const lt = text.toLowerCase();
 
 	// Exact
-	if (lt === lq) return 10000;
+	if (lt === lq) return { score: 10000, positions: range(0, lt.length) };
 
 	// Starts with
-	if (lt.startsWith(lq)) return 5000 + (lq.length / lt.length) * 100;
+	if (lt.startsWith(lq)) return { score: 5000 + (lq.length / lt.length) * 100, positions: range(0, lq.length) };
 
 	// Contains substring
 	const subIdx = lt.indexOf(lq);
 	if (subIdx >= 0) {
 		// Bonus for matching at word boundary (after - or space)
 		const atBoundary = subIdx === 0 || lt[subIdx - 1] === "-" || lt[subIdx - 1] === " ";
-		return 1000 + (lq.length / lt.length) * 100 + (atBoundary ? 200 : 0);
+		return { score: 1000 + (lq.length / lt.length) * 100 + (atBoundary ? 200 : 0), positions: range(subIdx, lq.length) };
 	}
 
 	// Fuzzy: all chars in order, but require decent consecutive runs
 	let qi = 0, maxRun = 0, currentRun = 0, totalMatched = 0;
+	const positions: number[] = [];
 	for (let i = 0; i < lt.length && qi < lq.length; i++) {
 		if (lt[i] === lq[qi]) {
 			currentRun++;
 			totalMatched++;
 			maxRun = Math.max(maxRun, currentRun);
+			positions.push(i);
 			qi++;
 		} else {
 			currentRun = 0;
 		}
 	}
 
-	if (qi < lq.length) return 0; // Not all chars matched
+	if (qi < lq.length) return NO_MATCH; // Not all chars matched
 
 	// Require at least 60% of query in one consecutive run, or query length >= 3
 	// This kills random 2-char scattered matches
-	if (lq.length <= 2 && maxRun < lq.length) return 0;
-	if (maxRun < Math.ceil(lq.length * 0.4)) return 0;
+	if (lq.length <= 2 && maxRun < lq.length) return NO_MATCH;
+	if (maxRun < Math.ceil(lq.length * 0.4)) return NO_MATCH;
+
+	return { score: 100 + maxRun * 30 + (totalMatched / lt.length) * 50, positions };
+}
+
+/**
+ * Score how well a query matches text — see matchText() for the tiers.
+ */
+export function scoreMatch(query: string, text: string): number {
+	return matchText(query, text).score;
+}
+
+/**
+ * Frecency: use count, decayed by time since the last use.
+ */
+export function frecency(usage: SkillUsage, now = Date.now()): number {
+	const age = Math.max(0, now - usage.timestamp);
+	return usage.count * Math.pow(0.5, age / FRECENCY_HALF_LIFE_MS);
+}
+
+/** Match tier of a scoreMatch() result — frecency may reorder within a tier, never across */
+function matchTier(score: number): number {
+	if (score >= 10000) return 3;
+	if (score >= 5000) return 2;
+	if (score >= 1000) return 1;
+	return 0;
+}
+
+export interface SkillMatch {
+	skill: Skill;
+	score: number;
+	/** Field the best score came from; unset when the skill is listed without scoring */
+	field?: MatchField;
+	/** Set when an alias or tag scored higher than the name and description */
+	matchedBy?: KeywordMatch;
+	highlights?: MatchHighlights;
+}
+
+/** One scored field of a skill */
+interface FieldMatch {
+	field: MatchField;
+	score: number;
+	highlights: MatchHighlights;
+	keyword?: KeywordMatch;
+}
+
+/**
+ * Sort scored matches by tier, then by score plus a bounded frecency boost.
+ * Frecency alone breaks ties between otherwise equal scores.
+ */
+function rankScored(scored: SkillMatch[], usage: SkillUsage[]): SkillMatch[] {
+	const now = Date.now();
+	const boosted = scored.map(item => {
+		const entry = usage.find(u => sameSkill(u, item.skill));
+		const f = entry ? frecency(entry, now) : 0;
+		// Saturates towards MAX_FRECENCY_BOOST so heavy use can't dominate the match quality
+		const boost = MAX_FRECENCY_BOOST * (f / (f + 1));
+		return { item, tier: matchTier(item.score), rank: item.score + boost, f };
+	});
+	boosted.sort((a, b) => b.tier - a.tier || b.rank - a.rank || b.f - a.f);
+	return boosted.map(b => b.item);
+}
+
+function fieldMatch(field: MatchField, match: TextMatch, weight = 1): FieldMatch {
+	return { field, score: match.score * weight, highlights: { [field]: match.positions } };
+}
+
+/**
+ * Alias and tag matches. Aliases are alternative names and weigh more than
+ * tags, which only describe the topic.
+ */
+function keywordMatches(query: string, skill: Skill): FieldMatch[] {
+	const matches: FieldMatch[] = [];
+	const candidates: [KeywordMatch["kind"], string[] | undefined, number][] = [
+		["alias", skill.aliases, ALIAS_WEIGHT],
+		["tag", skill.tags, TAG_WEIGHT],
+	];
+	for (const [kind, words, weight] of candidates) {
+		for (const text of words ?? []) {
+			matches.push({ ...fieldMatch(kind, matchText(query, text), weight), keyword: { kind, text } });
+		}
+	}
+	return matches;
+}
+
+function hasExactKeyword(query: string, skill: Skill): boolean {
+	return [...(skill.aliases ?? []), ...(skill.tags ?? [])].some(k => k.toLowerCase() === query);
+}
+
+/**
+ * Pick the best-scoring field; earlier candidates win ties, so list the name
+ * first and keywords last.
+ */
+function bestMatch(skill: Skill, candidates: FieldMatch[], extra: MatchHighlights = {}): SkillMatch {
+	let best: FieldMatch | null = null;
+	for (const c of candidates) {
+		if (c.score > 0 && (!best || c.score > best.score)) best = c;
+	}
+	if (!best) return { skill, score: 0 };
+	return { skill, score: best.score, field: best.field, matchedBy: best.keyword, highlights: { ...extra, ...best.highlights } };
+}
+
+/** Split positions in `namespace:name` into namespace and name positions */
+function splitQualified(positions: number[], namespace: string): MatchHighlights {
+	return {
+		namespace: positions.filter(p => p < namespace.length),
+		name: positions.filter(p => p > namespace.length).map(p => p - namespace.length - 1),
+	};
+}
+
+export function filterSkills(skills: Skill[], query: string, usage: SkillUsage[] = []): Skill[] {
+	return matchSkills(skills, query, usage).map(m => m.skill);
+}
 
-	return 100 + maxRun * 30 + (totalMatched / lt.length) * 50;
+/** Deepest namespace containing all of `namespaces` ("" if they share no root) */
+function commonNamespace(namespaces: string[]): string {
+	return namespaceAncestors(namespaces[0])
+		.filter(ancestor => namespaces.every(ns => isWithinNamespace(ns, ancestor)))
+		.at(-1) ?? "";
 }
 
-export function filterSkills(skills: Skill[], query: string): Skill[] {
-	if (!query.trim()) return skills;
+/**
+ * Filter and rank skills for a query, keeping which field matched and where.
+ */
+export function matchSkills(skills: Skill[], query: string, usage: SkillUsage[] = []): SkillMatch[] {
+	if (!query.trim()) return skills.map(skill => ({ skill, score: 0 }));
 
 	const lowerQuery = query.toLowerCase().trim();
+	const unscored = (list: Skill[]) => list.map(skill => ({ skill, score: 0 }));
 
 	// Support namespace:query syntax
 	const colonIdx = query.indexOf(":");
 	if (colonIdx > 0) {
 		const nsFilter = query.slice(0, colonIdx).toLowerCase();
 		const nameQuery = query.slice(colonIdx + 1).trim();
-		const nsSkills = skills.filter(s => s.namespace.toLowerCase().startsWith(nsFilter));
-		if (!nameQuery) return nsSkills;
+		// Whole segments only: `infra:` covers infra/aws, not infrastructure
+		const nsSkills = skills.filter(s => isWithinNamespace(s.namespace.toLowerCase(), nsFilter));
+		if (!nameQuery) return unscored(nsSkills);
 		const scored = nsSkills
-			.map(skill => ({
-				skill,
-				score: Math.max(
-					scoreMatch(nameQuery, skill.name),
-					scoreMatch(nameQuery, skill.description) * 0.3,
-				),
-			}))
-			.filter(item => item.score > 0)
-			.sort((a, b) => b.score - a.score);
-		return scored.map(item => item.skill);
+			.map(skill => bestMatch(skill, [
+				fieldMatch("name", matchText(nameQuery, skill.name)),
+				fieldMatch("description", matchText(nameQuery, skill.description), 0.3),
+				...keywordMatches(nameQuery, skill),
+			], { namespace: range(0, nsFilter.length) }))
+			.filter(item => item.score > 0);
+		return rankScored(scored, usage);
 	}
 
-	// If query exactly matches a namespace, show only that namespace
-	const exactNsMatch = skills.filter(s => s.namespace.toLowerCase() === lowerQuery);
-	if (exactNsMatch.length > 0) return exactNsMatch;
+	// If query exactly matches a namespace, show only that namespace (and those nested in it)
+	const exactNsMatch = skills.filter(s => isWithinNamespace(s.namespace.toLowerCase(), lowerQuery));
+	if (exactNsMatch.length > 0) return unscored(exactNsMatch);
 
-	// If query is a prefix of exactly one namespace, show that namespace
+	// If query is a prefix of exactly one namespace tree, show that tree —
+	// unless it's exactly some skill's alias or tag (e.g. "pr" vs a "prompts" namespace)
 	const nsMatches = [...new Set(skills.map(s => s.namespace.toLowerCase()))].filter(ns => ns.startsWith(lowerQuery));
-	if (nsMatches.length === 1) {
-		return skills.filter(s => s.namespace.toLowerCase() === nsMatches[0]);
+	const nsRoot = nsMatches.length > 0 ? commonNamespace(nsMatches) : "";
+	if (nsRoot.startsWith(lowerQuery) && !skills.some(s => hasExactKeyword(lowerQuery, s))) {
+		return unscored(skills.filter(s => isWithinNamespace(s.namespace.toLowerCase(), nsRoot)));
 	}
 
-	// Score each skill: name match heavily preferred over description
 	const scored = skills
-		.map(skill => {
-			const nameScore = scoreMatch(lowerQuery, skill.name);
-			const nsNameScore = scoreMatch(lowerQuery, `${skill.namespace}:${skill.name}`) * 0.9;
-			// Description: substring only, no fuzzy — avoids garbage matches
-			const descLower = skill.description.toLowerCase();
-			const descScore = descLower.includes(lowerQuery)
-				? 500 + (lowerQuery.length / descLower.length) * 100
-				: 0;
-
-			return {
-				skill,
-				score: Math.max(nameScore, nsNameScore, descScore),
-			};
-		})
-		.filter(item => item.score > 0)
-		.sort((a, b) => b.score - a.score);
-
-	return scored.map(item => item.skill);
+		.map(skill => matchSkill(skill, lowerQuery))
+		.filter(item => item.score > 0);
+
+	return rankScored(scored, usage);
+}
+
+/**
+ * Score one skill against plain (lowercase) query text, as the palette does:
+ * name match heavily preferred over aliases, tags and description.
+ */
+export function matchSkill(skill: Skill, lowerQuery: string): SkillMatch {
+	const nsName = matchText(lowerQuery, `${skill.namespace}:${skill.name}`);
+	// Description: substring only, no fuzzy — avoids garbage matches
+	const descLower = skill.description.toLowerCase();
+	const descIdx = descLower.indexOf(lowerQuery);
+	const desc: FieldMatch = descIdx >= 0
+		? { field: "description", score: 500 + (lowerQuery.length / descLower.length) * 100, highlights: { description: range(descIdx, lowerQuery.length) } }
+		: { field: "description", score: 0, highlights: {} };
+
+	return bestMatch(skill, [
+		fieldMatch("name", matchText(lowerQuery, skill.name)),
+		{ field: "namespace", score: nsName.score * 0.9, highlights: splitQualified(nsName.positions, skill.namespace) },
+		desc,
+		...keywordMatches(lowerQuery, skill),
+	]);
 }
 
 /**
  * Build display list (skills grouped by namespace with headers).
+ * Skills suggested for the last prompt come first, then recent in this
+ * project, then global recents not already shown.
+ * Collapsed groups keep their header (with its count) but list no skills.
  */
-export function buildDisplayList(skills: Skill[], recents: SkillUsage[]): DisplayItem[] {
+export function buildDisplayList(
+	skills: Skill[],
+	recents: SkillUsage[],
+	projectRecents: SkillUsage[] = [],
+	collapsed: ReadonlySet<string> = new Set(),
+	suggested: Skill[] = []
+): DisplayItem[] {
 	const items: DisplayItem[] = [];
+	// Leading sections also decide which skills the namespace groups skip, collapsed or not
+	const shown: Skill[] = [];
 
-	// Add recent section if we have any
-	if (recents.length > 0) {
-		const recentSkills = recents
-			.map(r => skills.find(s => s.name === r.name))
-			.filter((s): s is Skill => s != null);
-
-		if (recentSkills.length > 0) {
-			items.push({ type: "header", namespace: "recent" });
-			for (const skill of recentSkills) {
-				items.push({ type: "skill", skill, namespace: "recent" });
-			}
-		}
-	}
+	const suggestedSkills = suggested
+		.map(s => skills.find(k => sameSkill(k, s)))
+		.filter((s): s is Skill => s != null);
+	addSection(items, shown, suggestedSkills, SUGGESTED_GROUP, collapsed);
+
+	addSection(items, shown, pickRecents(shown, skills, projectRecents, MAX_PROJECT_RECENTS), PROJECT_RECENT_GROUP, collapsed);
+	addSection(items, shown, pickRecents(shown, skills, recents, MAX_RECENTS), RECENT_GROUP, collapsed);
 
 	// Group remaining by namespace, excluding skills already shown in recents
-	const recentNames = new Set(recents.map(r => r.name));
+	const recentKeys = new Set(shown.map(skillKey));
 	const groups = new Map<string, Skill[]>();
 	for (const skill of skills) {
-		if (recentNames.has(skill.name)) continue;
+		if (recentKeys.has(skillKey(skill))) continue;
 		const list = groups.get(skill.namespace) || [];
 		list.push(skill);
 		groups.set(skill.namespace, list);
 	}
 
-	// Sort namespaces, put "other" last
-	const sortedNs = Array.from(groups.keys()).sort((a, b) => {
-		if (a === "other") return 1;
-		if (b === "other") return -1;
-		return a.localeCompare(b);
-	});
+	// Nested namespaces (infra/aws) render as a tree under their ancestors,
+	// which get a header even when they hold no skills of their own
+	const paths = new Set<string>();
+	for (const ns of groups.keys()) {
+		for (const ancestor of namespaceAncestors(ns)) paths.add(ancestor);
+	}
 
-	for (const ns of sortedNs) {
-		items.push({ type: "header", namespace: ns });
-		const sorted = groups.get(ns)!.sort((a, b) => a.name.localeCompare(b.name));
-		for (const skill of sorted) {
-			items.push({ type: "skill", skill, namespace: ns });
-		}
+	for (const ns of [...paths].sort(compareNamespaces)) {
+		if (namespaceAncestors(ns).slice(0, -1).some(a => collapsed.has(a))) continue;
+		const depth = ns.split("/").length - 1;
+		const own = (groups.get(ns) ?? []).sort((a, b) => a.name.localeCompare(b.name));
+		const count = [...groups].reduce((n, [g, list]) => n + (isWithinNamespace(g, ns) ? list.length : 0), 0);
+		addGroup(items, ns, own, collapsed, depth, count);
 	}
 
 	return items;
 }
+
+/** `infra/aws/s3` → ["infra", "infra/aws", "infra/aws/s3"] */
+export function namespaceAncestors(namespace: string): string[] {
+	const parts = namespace.split("/");
+	return parts.map((_, i) => parts.slice(0, i + 1).join("/"));
+}
+
+/** Whether `namespace` is `parent` or nested below it */
+export function isWithinNamespace(namespace: string, parent: string): boolean {
+	return namespace === parent || namespace.startsWith(`${parent}/`);
+}
+
+/** Segment by segment so children sort right after their parent; "other" last */
+function compareNamespaces(a: string, b: string): number {
+	const [as, bs] = [a.split("/"), b.split("/")];
+	if (as[0] !== bs[0]) {
+		if (as[0] === "other") return 1;
+		if (bs[0] === "other") return -1;
+	}
+	for (let i = 0; i < Math.min(as.length, bs.length); i++) {
+		const cmp = as[i].localeCompare(bs[i]);
+		if (cmp !== 0) return cmp;
+	}
+	return as.length - bs.length;
+}
+
+function addGroup(
+	items: DisplayItem[],
+	group: string,
+	skills: Skill[],
+	collapsed: ReadonlySet<string>,
+	depth = 0,
+	count = skills.length
+): void {
+	const isCollapsed = collapsed.has(group);
+	items.push({ type: "header", namespace: group, count, collapsed: isCollapsed, depth });
+	if (isCollapsed) return;
+	for (const skill of skills) {
+		items.push({ type: "skill", skill, namespace: group, depth });
+	}
+}
+
+/** The first `max` skills of `usage` that are installed and not `shown` yet */
+function pickRecents(shown: Skill[], skills: Skill[], usage: SkillUsage[], max: number): Skill[] {
+	return usage
+		.filter(r => !shown.some(s => sameSkill(s, r)))
+		.map(r => skills.find(s => sameSkill(s, r)))
+		.filter((s): s is Skill => s != null)
+		.slice(0, max);
+}
+
+function addSection(items: DisplayItem[], shown: Skill[], sectionSkills: Skill[], section: string, collapsed: ReadonlySet<string>): void {
+	if (sectionSkills.length === 0) return;
+	shown.push(...sectionSkills);
+	addGroup(items, section, sectionSkills, collapsed);
+}
+
+/** Skills the two recent sections list, project first — what `is:recent` filters to */
+export function recentSkills(skills: Skill[], recents: SkillUsage[], projectRecents: SkillUsage[] = []): Skill[] {
+	const project = pickRecents([], skills, projectRecents, MAX_PROJECT_RECENTS);
+	return [...project, ...pickRecents(project, skills, recents, MAX_RECENTS)];
+}
@@ -0,0 +1,10 @@
+const CODE = /```[\s\S]*?(?:```|$)|`[^`\n]*`/g;
+
+/** Ranges of inline code and fenced blocks (an unclosed fence runs to the end) */
+export function codeRanges(text: string): [number, number][] {
+	return [...text.matchAll(CODE)].map(m => [m.index!, m.index! + m[0].length]);
+}
+
+export function inCode(code: [number, number][], offset: number): boolean {
+	return code.some(([from, to]) => offset >= from && offset < to);
+}
@@ -0,0 +1,134 @@
+import { matchesKey } from "@mariozechner/pi-tui";
+
+/**
+ * Single-line text editing for search fields: cursor movement, word and line
+ * deletion, bracketed paste. Pure — mutates the given line and reports whether
+ * the key was consumed, so callers decide what happens with everything else.
+ */
+export interface LineState {
+	text: string;
+	/** Offset into `text`, 0..text.length */
+	cursor: number;
+	/** Text received since a bracketed paste started, null outside a paste */
+	paste: string | null;
+}
+
+const PASTE_START = "\x1b[200~";
+const PASTE_END = "\x1b[201~";
+
+export function createLine(text = ""): LineState {
+	return { text, cursor: text.length, paste: null };
+}
+
+function insert(line: LineState, text: string): void {
+	line.text = line.text.slice(0, line.cursor) + text + line.text.slice(line.cursor);
+	line.cursor += text.length;
+}
+
+function wordStartBefore(text: string, from: number): number {
+	let i = from;
+	while (i > 0 && /\s/.test(text[i - 1])) i--;
+	while (i > 0 && !/\s/.test(text[i - 1])) i--;
+	return i;
+}
+
+function wordEndAfter(text: string, from: number): number {
+	let i = from;
+	while (i < text.length && /\s/.test(text[i])) i++;
+	while (i < text.length && !/\s/.test(text[i])) i++;
+	return i;
+}
+
+function hasControlChars(data: string): boolean {
+	return [...data].some(ch => {
+		const code = ch.charCodeAt(0);
+		return code < 32 || code === 0x7f || (code >= 0x80 && code <= 0x9f);
+	});
+}
+
+/** Pasted text on one line: newlines and tabs become spaces, other control chars are dropped */
+function cleanPaste(text: string): string {
+	return text.replace(/\r\n|[\r\n\t]/g, " ").replace(/[\x00-\x1f\x7f]/g, "");
+}
+
+/**
+ * Apply one input chunk to the line. Returns true if it was consumed — an
+ * edit, a cursor move, or part of a paste still arriving.
+ */
+export function editLine(line: LineState, data: string): boolean {
+	// Bracketed paste may arrive split over several chunks — buffer until the end marker
+	if (line.paste === null && data.includes(PASTE_START)) {
+		line.paste = "";
+		data = data.slice(data.indexOf(PASTE_START) + PASTE_START.length);
+	}
+	if (line.paste !== null) {
+		line.paste += data;
+		const end = line.paste.indexOf(PASTE_END);
+		if (end === -1) return true;
+		insert(line, cleanPaste(line.paste.slice(0, end)));
+		const rest = line.paste.slice(end + PASTE_END.length);
+		line.paste = null;
+		if (rest) editLine(line, rest);
+		return true;
+	}
+
+	if (matchesKey(data, "ctrl+left") || matchesKey(data, "alt+left") || matchesKey(data, "alt+b")) {
+		line.cursor = wordStartBefore(line.text, line.cursor);
+		return true;
+	}
+	if (matchesKey(data, "ctrl+right") || matchesKey(data, "alt+right") || matchesKey(data, "alt+f")) {
+		line.cursor = wordEndAfter(line.text, line.cursor);
+		return true;
+	}
+	if (matchesKey(data, "left")) {
+		line.cursor = Math.max(0, line.cursor - 1);
+		return true;
+	}
+	if (matchesKey(data, "right")) {
+		line.cursor = Math.min(line.text.length, line.cursor + 1);
+		return true;
+	}
+	if (matchesKey(data, "home") || matchesKey(data, "ctrl+a")) {
+		line.cursor = 0;
+		return true;
+	}
+	if (matchesKey(data, "end") || matchesKey(data, "ctrl+e")) {
+		line.cursor = line.text.length;
+		return true;
+	}
+
+	if (matchesKey(data, "ctrl+w") || matchesKey(data, "alt+backspace")) {
+		const start = wordStartBefore(line.text, line.cursor);
+		line.text = line.text.slice(0, start) + line.text.slice(line.cursor);
+		line.cursor = start;
+		return true;
+	}
+	if (matchesKey(data, "ctrl+u")) {
+		line.text = line.text.slice(line.cursor);
+		line.cursor = 0;
+		return true;
+	}
+	if (matchesKey(data, "ctrl+k")) {
+		line.text = line.text.slice(0, line.cursor);
+		return true;
+	}
+	if (matchesKey(data, "backspace")) {
+		if (line.cursor > 0) {
+			line.text = line.text.slice(0, line.cursor - 1) + line.text.slice(line.cursor);
+			line.cursor--;
+		}
+		return true;
+	}
+	if (matchesKey(data, "delete")) {
+		line.text = line.text.slice(0, line.cursor) + line.text.slice(line.cursor + 1);
+		return true;
+	}
+
+	// Printable text — a single key or an unbracketed paste
+	if (data.length > 0 && !hasControlChars(data)) {
+		insert(line, data);
+		return true;
+	}
+
+	return false;
+}
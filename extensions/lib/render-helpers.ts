@@ -1,6 +1,15 @@
 import { truncateToWidth, visibleWidth } from "@mariozechner/pi-tui";
 import type { Theme } from "../types";
 
+/**
+ * Untrusted text (skill files, usage.json) without control characters, so it
+ * can't restyle the terminal. Newlines become spaces unless kept.
+ */
+export function stripControlChars(text: string, keepNewlines = false): string {
+	const clean = text.replace(/[\x00-\x09\x0b-\x1f\x7f]/g, "");
+	return keepNewlines ? clean : clean.replace(/\n/g, " ");
+}
+
 export function pad(s: string, len: number): string {
 	const vis = visibleWidth(s);
 	return s + " ".repeat(Math.max(0, len - vis));
@@ -50,3 +59,72 @@ export function makeBox(innerW: number, theme: Theme) {
 
 	return { row, emptyRow, divider, topBorder, bottomBorder };
 }
+
+/** Join `parts` with `separator` into as few lines of at most `width` columns as fit them whole */
+export function wrapParts(parts: string[], separator: string, width: number): string[] {
+	const lines: string[] = [];
+	let line = "";
+	for (const part of parts) {
+		const joined = line ? `${line}${separator}${part}` : part;
+		if (line && visibleWidth(joined) > width) {
+			lines.push(line);
+			line = part;
+		} else {
+			line = joined;
+		}
+	}
+	if (line) lines.push(line);
+	return lines;
+}
+
+/** Style the characters at `positions` with `hl` and runs in between with `base` */
+export function highlightChars(
+	text: string,
+	positions: number[] | undefined,
+	base: (s: string) => string,
+	hl: (s: string) => string
+): string {
+	if (!positions || positions.length === 0) return base(text);
+	const marked = new Set(positions);
+	let out = "";
+	let run = "";
+	let runMarked = false;
+	for (let i = 0; i < text.length; i++) {
+		const isMarked = marked.has(i);
+		if (run && isMarked !== runMarked) {
+			out += runMarked ? hl(run) : base(run);
+			run = "";
+		}
+		run += text[i];
+		runMarked = isMarked;
+	}
+	if (run) out += runMarked ? hl(run) : base(run);
+	return out;
+}
+
+/**
+ * Cut `text` to `width` characters with "…" where it was cut, keeping the
+ * matched positions in view — centered on them when they'd fall past the end.
+ * Returns the snippet and the positions shifted into it.
+ */
+export function snippetAround(text: string, positions: number[], width: number): { text: string; positions: number[] } {
+	if (text.length <= width) return { text, positions };
+
+	const first = positions.length > 0 ? Math.min(...positions) : 0;
+	const last = positions.length > 0 ? Math.max(...positions) : 0;
+	let start = 0;
+	// Past the truncation point ("…" takes the last column) — center the match
+	if (last >= width - 1) {
+		start = Math.max(0, first - Math.floor((width - (last - first + 1)) / 2));
+		start = Math.min(start, text.length - width);
+	}
+
+	const chars = text.slice(start, start + width).split("");
+	if (start > 0) chars[0] = "…";
+	if (start + width < text.length) chars[chars.length - 1] = "…";
+
+	const shifted = positions
+		.map(p => p - start)
+		.filter(p => p >= 0 && p < chars.length && chars[p] !== "…");
+	return { text: chars.join(""), positions: shifted };
+}
@@ -0,0 +1,46 @@
+import type { Skill } from "../types";
+
+/**
+ * Qualified `namespace:name` key — the identity of a skill. Two skills may share
+ * a name as long as they live in different namespaces.
+ */
+export function skillKey(skill: { name: string; namespace: string }): string {
+	return `${skill.namespace}:${skill.name}`;
+}
+
+export function sameSkill(a: { name: string; namespace: string }, b: { name: string; namespace: string }): boolean {
+	return a.name === b.name && a.namespace === b.namespace;
+}
+
+/**
+ * Resolve a skill reference — a `/skill` argument, a mention or a load_skill
+ * name. A qualified `namespace:name` matches one skill; a bare name may match
+ * several when namespaces reuse it.
+ */
+export function findSkills(skills: Skill[], ref: string): Skill[] {
+	const exact = skills.find(s => skillKey(s) === ref);
+	if (exact) return [exact];
+	return skills.filter(s => s.name === ref);
+}
+
+export interface SkillLookup {
+	/** The one skill the reference names, or null */
+	skill: Skill | null;
+	/** Set when a bare name matched several namespaces — what to tell the user instead */
+	ambiguity: string | null;
+}
+
+/** findSkills() for callers that need exactly one skill */
+export function lookupSkill(skills: Skill[], ref: string): SkillLookup {
+	const found = findSkills(skills, ref);
+	if (found.length === 1) return { skill: found[0], ambiguity: null };
+	return { skill: null, ambiguity: found.length > 1 ? ambiguityMessage(ref, found) : null };
+}
+
+/**
+ * Why a reference wasn't resolved. Never guess between namespaces — a repo
+ * skill could be picked over a trusted one — so list the qualified names.
+ */
+export function ambiguityMessage(ref: string, found: Skill[]): string {
+	return `"${ref}" is ambiguous — use one of: ${found.map(s => `${skillKey(s)} [${s.source}]`).join(", ")}`;
+}
@@ -0,0 +1,78 @@
+import { CustomEditor, type KeybindingsManager } from "@mariozechner/pi-coding-agent";
+import type { AutocompleteItem, AutocompleteProvider, EditorTheme, TUI } from "@mariozechner/pi-tui";
+import { mentionAtCursor } from "./mentions";
+
+/** Completions for a partial skill reference (`infra:te`), as `/skill` offers them */
+export type SkillCompleter = (prefix: string) => AutocompleteItem[] | null;
+
+type Suggestions = { items: AutocompleteItem[]; prefix: string } | null;
+
+/** pi's file-completion extras — optional on a provider, so checked at runtime */
+interface FileCompletionProvider extends AutocompleteProvider {
+	getForceFileSuggestions?(lines: string[], cursorLine: number, cursorCol: number): Suggestions;
+	shouldTriggerFileCompletion?(lines: string[], cursorLine: number, cursorCol: number): boolean;
+}
+
+/**
+ * Completes `$skill` / `@skill:` mentions and hands everything else (slash
+ * commands, @file references) to the provider it wraps.
+ */
+export class SkillMentionAutocomplete implements AutocompleteProvider {
+	constructor(
+		private inner: FileCompletionProvider | undefined,
+		private complete: SkillCompleter
+	) {}
+
+	private mentionSuggestions(lines: string[], cursorLine: number, cursorCol: number): Suggestions {
+		const mention = mentionAtCursor((lines[cursorLine] ?? "").slice(0, cursorCol));
+		if (!mention) return null;
+		const items = (this.complete(mention.ref) ?? []).map(item => ({
+			...item,
+			// A finished name gets a space so typing carries on; a namespace keeps completing
+			value: `${mention.sigil}${item.value}${item.value.endsWith(":") ? "" : " "}`,
+		}));
+		return { items, prefix: `${mention.sigil}${mention.ref}` };
+	}
+
+	getSuggestions(lines: string[], cursorLine: number, cursorCol: number): Suggestions {
+		return this.mentionSuggestions(lines, cursorLine, cursorCol)
+			?? this.inner?.getSuggestions(lines, cursorLine, cursorCol)
+			?? null;
+	}
+
+	/** Tab — the only trigger for `$`, which the editor doesn't complete on its own */
+	getForceFileSuggestions(lines: string[], cursorLine: number, cursorCol: number): Suggestions {
+		const mention = this.mentionSuggestions(lines, cursorLine, cursorCol);
+		if (mention) return mention;
+		if (this.inner?.getForceFileSuggestions) return this.inner.getForceFileSuggestions(lines, cursorLine, cursorCol);
+		return this.inner?.getSuggestions(lines, cursorLine, cursorCol) ?? null;
+	}
+
+	shouldTriggerFileCompletion(lines: string[], cursorLine: number, cursorCol: number): boolean {
+		if (mentionAtCursor((lines[cursorLine] ?? "").slice(0, cursorCol))) return true;
+		return this.inner?.shouldTriggerFileCompletion?.(lines, cursorLine, cursorCol) ?? true;
+	}
+
+	applyCompletion(lines: string[], cursorLine: number, cursorCol: number, item: AutocompleteItem, prefix: string) {
+		if (prefix.startsWith("$") || prefix.startsWith("@skill:")) {
+			const line = lines[cursorLine] ?? "";
+			const start = cursorCol - prefix.length;
+			const updated = [...lines];
+			updated[cursorLine] = line.slice(0, start) + item.value + line.slice(cursorCol);
+			return { lines: updated, cursorLine, cursorCol: start + item.value.length };
+		}
+		if (this.inner) return this.inner.applyCompletion(lines, cursorLine, cursorCol, item, prefix);
+		return { lines, cursorLine, cursorCol };
+	}
+}
+
+/** pi's editor, with skill mentions added to whatever autocompletion it is given */
+export class SkillMentionEditor extends CustomEditor {
+	constructor(tui: TUI, theme: EditorTheme, keybindings: KeybindingsManager, private complete: SkillCompleter) {
+		super(tui, theme, keybindings);
+	}
+
+	setAutocompleteProvider(provider: AutocompleteProvider): void {
+		super.setAutocompleteProvider(new SkillMentionAutocomplete(provider, this.complete));
+	}
+}
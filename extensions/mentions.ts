@@ -0,0 +1,105 @@
+/**
+ * Inline skill mentions in a prompt: `use $infra:terraform to …` or
+ * `@skill:terraform`. A mention names a skill the way `/skill` arguments do —
+ * `namespace:name` or a bare name.
+ *
+ * `$` mentions must start with a lowercase letter so shell variables
+ * (`$HOME`, `$1`) aren't taken for skills; `@skill:` is explicit and takes any
+ * name. Any other `$word` may still be a variable (`$path`, `$this->db`,
+ * `$foo:bar`), so only `@skill:` and a `$namespace:name` in a namespace that
+ * exists are sure enough to insist on. Nothing inside `inline code` or fenced
+ * code blocks is a mention.
+ */
+
+import type { Skill } from "./types";
+import { codeRanges, inCode } from "./lib/code-spans";
+
+export interface SkillMention {
+	/** The skill reference: `namespace:name` or `name` */
+	ref: string;
+	/** Offset of the mention, sigil included */
+	start: number;
+	end: number;
+	/** `@skill:` — surely meant as a skill, unlike a `$word` */
+	explicit: boolean;
+}
+
+export type MentionSigil = "$" | "@skill:";
+
+// Preceded by start, whitespace or an opening bracket/quote, so `a$b` and emails don't count
+const MENTION = /(?<=^|[\s([{"'])(?:\$([a-z][\w./-]*(?::[\w./-]+)?)|@skill:([\w./-]+(?::[\w./-]+)?))/g;
+
+export function findMentions(text: string): SkillMention[] {
+	const code = codeRanges(text);
+	const mentions: SkillMention[] = [];
+	for (const m of text.matchAll(MENTION)) {
+		const start = m.index!;
+		if (inCode(code, start)) continue;
+		// Sentence punctuation isn't part of the name: "use $deploy."
+		const ref = (m[1] ?? m[2]).replace(/[./-]+$/, "");
+		const end = start + m[0].length - ((m[1] ?? m[2]).length - ref.length);
+		mentions.push({ ref, start, end, explicit: m[2] !== undefined });
+	}
+	return mentions;
+}
+
+export interface MentionResolution {
+	/** The skill each resolved mention names, in prompt order */
+	skills: Skill[];
+	/** Mentions that named a skill — the ones "strip" removes */
+	used: SkillMention[];
+	/** Mentions naming several skills, with what they matched */
+	ambiguous: { ref: string; found: Skill[] }[];
+	/** Mentions naming no skill that were surely meant as one */
+	unknown: string[];
+}
+
+/**
+ * Match a prompt's mentions against skills with `lookup`. An unknown `$word`
+ * is left as text — it's most likely a variable — unless it is qualified with
+ * a namespace `isNamespace` knows; those and `@skill:` end up in `unknown`.
+ */
+export function resolveMentions(
+	text: string,
+	lookup: (ref: string) => Skill[],
+	isNamespace: (namespace: string) => boolean = () => false
+): MentionResolution {
+	const resolution: MentionResolution = { skills: [], used: [], ambiguous: [], unknown: [] };
+	for (const mention of findMentions(text)) {
+		const found = lookup(mention.ref);
+		if (found.length === 1) {
+			resolution.skills.push(found[0]);
+			resolution.used.push(mention);
+		} else if (found.length > 1) {
+			resolution.ambiguous.push({ ref: mention.ref, found });
+		} else if (mention.explicit || (mention.ref.includes(":") && isNamespace(mention.ref.slice(0, mention.ref.lastIndexOf(":"))))) {
+			resolution.unknown.push(mention.ref);
+		}
+	}
+	return resolution;
+}
+
+/** Remove mentions from the text, with one of the spaces around each */
+export function stripMentions(text: string, mentions: SkillMention[]): string {
+	let out = text;
+	for (const { start, end } of [...mentions].sort((a, b) => b.start - a.start)) {
+		let from = start;
+		let to = end;
+		if (out[to] === " ") to++;
+		else if (out[from - 1] === " ") from--;
+		out = out.slice(0, from) + out.slice(to);
+	}
+	return out.trim();
+}
+
+/**
+ * The mention being typed at the end of `beforeCursor`, for autocompletion.
+ * `$` alone counts, so Tab right after it lists every skill.
+ */
+export function mentionAtCursor(beforeCursor: string): { sigil: MentionSigil; ref: string } | null {
+	const m = beforeCursor.match(/(?:^|[\s([{"'])(\$|@skill:)([\w./:-]*)$/);
+	if (!m) return null;
+	const sigil = m[1] as MentionSigil;
+	if (sigil === "$" && m[2] && !/^[a-z]/.test(m[2])) return null;
+	return { sigil, ref: m[2] };
+}
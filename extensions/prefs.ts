@@ -0,0 +1,47 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+/** Queries remembered for ↑ recall in the palette */
+export const MAX_QUERY_HISTORY = 20;
+
+export const PREFS_FILE = path.join(os.homedir(), ".pi-skill-picker", "palette.json");
+
+/** Palette view state remembered across sessions */
+export interface PalettePrefs {
+	/** Collapsed groups: namespaces, or RECENT_GROUP / PROJECT_RECENT_GROUP */
+	collapsed: string[];
+	/** Earlier search queries, most recent first */
+	history: string[];
+}
+
+function strings(value: unknown): string[] {
+	return Array.isArray(value) ? value.filter((v: unknown): v is string => typeof v === "string") : [];
+}
+
+export function loadPrefs(file = PREFS_FILE): PalettePrefs {
+	try {
+		const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+		return { collapsed: strings(data?.collapsed), history: strings(data?.history).slice(0, MAX_QUERY_HISTORY) };
+	} catch {
+		return { collapsed: [], history: [] };
+	}
+}
+
+export function savePrefs(prefs: PalettePrefs, file = PREFS_FILE): void {
+	try {
+		const dir = path.dirname(file);
+		if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+		fs.writeFileSync(file, JSON.stringify(prefs, null, 2));
+		fs.chmodSync(file, 0o600);
+	} catch {
+		// silently fail — not critical
+	}
+}
+
+/** Put a query at the front of the history, dropping an older copy of it */
+export function rememberQuery(history: string[], query: string): string[] {
+	const trimmed = query.trim();
+	if (!trimmed) return history;
+	return [trimmed, ...history.filter(q => q !== trimmed)].slice(0, MAX_QUERY_HISTORY);
+}
@@ -0,0 +1,133 @@
+import type { Skill } from "./types";
+import { sameSkill } from "./lib/skill-key";
+import { isWithinNamespace } from "./fuzzy";
+
+/**
+ * Palette query language. Operators can appear anywhere, in any order;
+ * whatever isn't an operator is the free text, scored exactly as before.
+ *
+ *   -term              exclude skills mentioning term (name, namespace, description, aliases, tags)
+ *   src:local|home     only skills from that source
+ *   ns:infra,comms     only these namespaces and those nested in them, like `infra:`
+ *   desc:"a phrase"    description contains the phrase (quotes allow spaces)
+ *   is:recent|pinned   only recently used / pinned skills
+ *
+ * `namespace:query` without a known operator name stays free text. A leading
+ * backslash escapes an operator: `\ns:deploy` searches the `ns` namespace.
+ */
+
+export type QueryTokenKind = "text" | "exclude" | "src" | "ns" | "desc" | "is";
+
+export interface QueryToken {
+	kind: QueryTokenKind;
+	/** The token as typed, quotes included */
+	raw: string;
+	/** Offset of `raw` in the query */
+	start: number;
+}
+
+export interface ParsedQuery {
+	/** Free text left after removing operators */
+	text: string;
+	exclude: string[];
+	sources: Skill["source"][];
+	namespaces: string[];
+	descPhrases: string[];
+	is: ("recent" | "pinned")[];
+	tokens: QueryToken[];
+}
+
+/** Context for filters that depend on more than the skill itself */
+export interface QueryContext {
+	/** What the recent sections list — capped, so `is:recent` isn't "ever used" */
+	recents: Skill[];
+	pinned: Skill[];
+}
+
+const OPERATOR = /^(src|ns|desc|is):(.*)$/s;
+
+function unquote(value: string): string {
+	return value.replace(/^"/, "").replace(/"$/, "");
+}
+
+/** Split on whitespace, keeping "quoted parts" (possibly still open) inside one token */
+function tokenize(query: string): { raw: string; start: number }[] {
+	const tokens: { raw: string; start: number }[] = [];
+	let i = 0;
+	while (i < query.length) {
+		if (/\s/.test(query[i])) { i++; continue; }
+		const start = i;
+		let inQuote = false;
+		while (i < query.length && (inQuote || !/\s/.test(query[i]))) {
+			if (query[i] === '"') inQuote = !inQuote;
+			i++;
+		}
+		tokens.push({ raw: query.slice(start, i), start });
+	}
+	return tokens;
+}
+
+export function parseQuery(query: string): ParsedQuery {
+	const parsed: ParsedQuery = { text: "", exclude: [], sources: [], namespaces: [], descPhrases: [], is: [], tokens: [] };
+	const text: string[] = [];
+
+	for (const { raw, start } of tokenize(query)) {
+		const op = raw.match(OPERATOR);
+		let kind: QueryTokenKind = "text";
+
+		if (raw.length > 1 && raw.startsWith("\\")) {
+			text.push(raw.slice(1));
+		} else if (raw.length > 1 && raw.startsWith("-")) {
+			kind = "exclude";
+			parsed.exclude.push(unquote(raw.slice(1)).toLowerCase());
+		} else if (op) {
+			kind = op[1] as QueryTokenKind;
+			const value = unquote(op[2]).toLowerCase();
+			// An operator without a value yet (still typing) filters nothing
+			if (value) {
+				if (kind === "src") {
+					if (value === "home" || value === "local") parsed.sources.push(value);
+				} else if (kind === "ns") {
+					parsed.namespaces.push(...value.split(",").map(ns => ns.trim()).filter(Boolean));
+				} else if (kind === "desc") {
+					parsed.descPhrases.push(value);
+				} else if (value === "recent" || value === "pinned") {
+					parsed.is.push(value);
+				}
+			}
+		} else {
+			text.push(raw);
+		}
+
+		parsed.tokens.push({ kind, raw, start });
+	}
+
+	parsed.text = text.join(" ");
+	return parsed;
+}
+
+/** True if the query uses any operator, i.e. it's more than plain text */
+export function hasFilters(parsed: ParsedQuery): boolean {
+	return parsed.tokens.some(t => t.kind !== "text");
+}
+
+function mentions(skill: Skill, term: string): boolean {
+	return [skill.name, skill.namespace, skill.description, ...(skill.aliases ?? []), ...(skill.tags ?? [])]
+		.some(field => field.toLowerCase().includes(term));
+}
+
+/**
+ * Apply the operators of a parsed query. Values of one operator are OR-ed
+ * (`ns:a,b`, `src:home src:local`); different operators are AND-ed.
+ */
+export function applyFilters(skills: Skill[], parsed: ParsedQuery, ctx: QueryContext): Skill[] {
+	return skills.filter(skill => {
+		if (parsed.exclude.some(term => mentions(skill, term))) return false;
+		if (parsed.sources.length > 0 && !parsed.sources.includes(skill.source)) return false;
+		if (parsed.namespaces.length > 0 && !parsed.namespaces.some(ns => isWithinNamespace(skill.namespace.toLowerCase(), ns))) return false;
+		if (!parsed.descPhrases.every(phrase => skill.description.toLowerCase().includes(phrase))) return false;
+		if (parsed.is.includes("recent") && !ctx.recents.some(r => sameSkill(r, skill))) return false;
+		if (parsed.is.includes("pinned") && !ctx.pinned.some(p => sameSkill(p, skill))) return false;
+		return true;
+	});
+}
@@ -0,0 +1,198 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ResourceConfig, Skill } from "./types";
+import { codeRanges, inCode } from "./lib/code-spans";
+
+/**
+ * Files a skill ships next to its SKILL.md — scripts/, references/, templates —
+ * and how they are surfaced when the skill is injected: a manifest appended to
+ * the body, and relative links in the body rewritten to absolute paths so the
+ * model can read the right file from any working directory.
+ */
+
+export interface SkillResource {
+	/** Relative to the skill's directory, `/`-separated */
+	path: string;
+	size: number;
+}
+
+export interface ResourceListing {
+	resources: SkillResource[];
+	/** Files left out once MAX_RESOURCES was reached */
+	truncated: boolean;
+}
+
+// Bounds for walking a skill's files — a skill dir can hold a whole repo
+const MAX_RESOURCES = 200;
+const MAX_RESOURCE_DEPTH = 4;
+
+/** Never worth listing; config `ignore` patterns are added to these */
+export const DEFAULT_RESOURCE_IGNORE = [".*", "node_modules", "__pycache__", "*.pyc"];
+
+/** Default manifest budget, in characters */
+export const DEFAULT_MANIFEST_BUDGET = 2000;
+
+export function defaultResourceConfig(): ResourceConfig {
+	return { manifest: false, resolveLinks: false, budget: DEFAULT_MANIFEST_BUDGET, ignore: [] };
+}
+
+function globToRegExp(glob: string): RegExp {
+	let re = "";
+	for (let i = 0; i < glob.length; i++) {
+		const ch = glob[i];
+		if (ch === "*" && glob[i + 1] === "*") {
+			// `**/` matches any number of directories, including none
+			re += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+			i += glob[i + 2] === "/" ? 2 : 1;
+		} else if (ch === "*") {
+			re += "[^/]*";
+		} else if (ch === "?") {
+			re += "[^/]";
+		} else {
+			re += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${re}$`);
+}
+
+/**
+ * gitignore-style, simplified: a pattern without `/` matches a file or folder
+ * name anywhere; one with `/` matches the path from the skill's directory.
+ */
+export function isIgnored(relPath: string, patterns: string[]): boolean {
+	const name = relPath.split("/").at(-1)!;
+	return patterns.some(pattern => {
+		const trimmed = pattern.replace(/^\/|\/$/g, "");
+		return trimmed.includes("/") ? globToRegExp(trimmed).test(relPath) : globToRegExp(trimmed).test(name);
+	});
+}
+
+/** Every file in the skill's directory except SKILL.md and ignored ones, sorted by path */
+export function listSkillResources(skill: Skill, ignore: string[] = []): ResourceListing {
+	const root = path.dirname(skill.filePath);
+	const patterns = [...DEFAULT_RESOURCE_IGNORE, ...ignore];
+	const resources: SkillResource[] = [];
+	let truncated = false;
+
+	function walk(dir: string, depth: number): void {
+		let entries: fs.Dirent[];
+		try {
+			entries = fs.readdirSync(dir, { withFileTypes: true });
+		} catch {
+			return;
+		}
+		entries.sort((a, b) => a.name.localeCompare(b.name));
+		for (const entry of entries) {
+			const full = path.join(dir, entry.name);
+			const rel = path.relative(root, full).split(path.sep).join("/");
+			if (full === skill.filePath || isIgnored(rel, patterns)) continue;
+			if (resources.length >= MAX_RESOURCES) {
+				truncated = true;
+				return;
+			}
+			let stat: fs.Stats;
+			try {
+				stat = fs.statSync(full);
+			} catch {
+				continue; // broken symlink
+			}
+			if (stat.isDirectory()) {
+				if (depth < MAX_RESOURCE_DEPTH) walk(full, depth + 1);
+				else truncated = true;
+			} else {
+				resources.push({ path: rel, size: stat.size });
+			}
+		}
+	}
+
+	walk(root, 1);
+	return { resources, truncated };
+}
+
+function formatSize(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Manifest of a skill's files for the model, kept within `budget` characters.
+ * Files that don't fit are counted, not silently dropped. Empty if there are none.
+ */
+export function formatManifest(skill: Skill, listing: ResourceListing, budget: number): string {
+	if (listing.resources.length === 0) return "";
+	const dir = path.dirname(skill.filePath);
+	const header = `Files in this skill (relative to ${dir}):`;
+	const lines = [header];
+	let used = header.length;
+	let shown = 0;
+	for (const resource of listing.resources) {
+		const line = `- ${resource.path} (${formatSize(resource.size)})`;
+		if (used + line.length + 1 > budget) break;
+		lines.push(line);
+		used += line.length + 1;
+		shown++;
+	}
+	const more = listing.resources.length - shown;
+	if (more > 0 || listing.truncated) {
+		lines.push(listing.truncated ? `- … and more files not listed` : `- … and ${more} more file${more > 1 ? "s" : ""}`);
+	}
+	return lines.join("\n");
+}
+
+function isRelativeTarget(target: string): boolean {
+	// Not a URL (http:, mailto:…), an anchor, or already absolute
+	return !!target && !/^[a-z][\w+.-]*:/i.test(target) && !target.startsWith("#") && !path.isAbsolute(target) && !target.startsWith("~");
+}
+
+/**
+ * Rewrite relative Markdown links and images (`[x](scripts/run.sh)`,
+ * `[id]: references/api.md`) to absolute paths, when the target exists inside
+ * the skill's directory. Anchors (`#section`) on a file link are kept. Links
+ * inside inline code or fenced blocks are left alone.
+ */
+export function resolveLinks(body: string, skillDir: string): string {
+	const resolve = (target: string): string | null => {
+		const hash = target.indexOf("#");
+		const file = hash >= 0 ? target.slice(0, hash) : target;
+		const anchor = hash >= 0 ? target.slice(hash) : "";
+		if (!isRelativeTarget(file)) return null;
+		let decoded: string;
+		try {
+			decoded = decodeURIComponent(file);
+		} catch {
+			decoded = file;
+		}
+		const absolute = path.resolve(skillDir, decoded);
+		// Only the skill's own files — `../` out of it would expose unrelated host paths
+		const rel = path.relative(skillDir, absolute);
+		if (rel === ".." || rel.startsWith(`..${path.sep}`) || path.isAbsolute(rel)) return null;
+		return fs.existsSync(absolute) ? absolute + anchor : null;
+	};
+
+	// Only prose — links shown in inline code or fenced blocks are examples, left as written
+	const inline = codeRanges(body);
+	// Inline: [text](target "title") and ![alt](target)
+	const linked = body.replace(/(!?\[[^\]\n]*\]\()(<[^>\n]+>|[^)\s]+)((?:\s+"[^"\n]*")?\))/g, (match, open: string, target: string, close: string, offset: number) => {
+		if (inCode(inline, offset)) return match;
+		const bracketed = target.startsWith("<");
+		const resolved = resolve(bracketed ? target.slice(1, -1) : target);
+		if (!resolved) return match;
+		return `${open}${bracketed || /\s/.test(resolved) ? `<${resolved}>` : resolved}${close}`;
+	});
+	// Reference definitions: [id]: target
+	const references = codeRanges(linked);
+	return linked.replace(/^( {0,3}\[[^\]\n]+\]:[ \t]*)(\S+)/gm, (match, open: string, target: string, offset: number) => {
+		if (inCode(references, offset)) return match;
+		const resolved = resolve(target);
+		return resolved ? `${open}${/\s/.test(resolved) ? `<${resolved}>` : resolved}` : match;
+	});
+}
+
+/** The body to inject: links resolved and the manifest appended, as configured */
+export function withResources(skill: Skill, body: string, config: ResourceConfig, listing: ResourceListing): string {
+	let out = config.resolveLinks ? resolveLinks(body, path.dirname(skill.filePath)) : body;
+	const manifest = config.manifest ? formatManifest(skill, listing, config.budget) : "";
+	if (manifest) out = `${out}\n\n${manifest}`;
+	return out;
+}
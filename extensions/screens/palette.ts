@@ -1,7 +1,20 @@
-import { matchesKey, truncateToWidth, visibleWidth } from "@mariozechner/pi-tui";
+import { matchesKey, truncateToWidth, visibleWidth, wrapTextWithAnsi } from "@mariozechner/pi-tui";
 import type { Skill, DisplayItem, SkillUsage, PaletteAction, Theme } from "../types";
-import { makeBox } from "../lib/render-helpers";
-import { filterSkills, buildDisplayList } from "../fuzzy";
+import { highlightChars, makeBox, snippetAround, stripControlChars, wrapParts } from "../lib/render-helpers";
+import { matchSkills, buildDisplayList, recentSkills, PROJECT_RECENT_GROUP, RECENT_GROUP, SUGGESTED_GROUP } from "../fuzzy";
+import { getSkillContent, getSkillSize } from "../skill-loader";
+import { sameSkill } from "../lib/skill-key";
+import { mergeUsage } from "../usage";
+import { estimateTokens, formatTokens } from "../tokens";
+import { editLine, type LineState } from "../lib/line-editor";
+import { applyFilters, hasFilters, parseQuery, type ParsedQuery } from "../query";
+
+const BOX_WIDTH = 76;
+const MAX_VISIBLE = 14;
+// Preview body rows — leaves room for the header so the box keeps its height
+const PREVIEW_VISIBLE = MAX_VISIBLE - 6;
+// Box inner width minus the row gutter and the preview indent
+const PREVIEW_WIDTH = BOX_WIDTH - 2 - 4;
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Palette render state — everything the screen needs to render + handle input
@@ -12,39 +25,148 @@ export interface PaletteRenderState {
 	displayItems: DisplayItem[];
 	selectedIndex: number;
 	query: string;
-	queuedSkillName: string | null;
+	/** Cursor offset into `query` */
+	cursor: number;
+	/** Bracketed paste still arriving, null otherwise */
+	paste: string | null;
+	/** `query` split into free text and filter operators */
+	parsed: ParsedQuery;
+	/** Earlier queries, most recent first — recalled with ↑ at the top of the list */
+	history: string[];
+	/** Position in `history` while recalling, -1 when editing a fresh query */
+	historyIndex: number;
+	/** Query typed before recalling started — ↓ past the newest entry brings it back */
+	draft: string;
+	/** Working copy of the queue — toggled with space, committed on enter */
+	queued: Skill[];
+	/** The queue when the palette opened — enter on one of these unqueues it */
+	openedQueue: Skill[];
+	/** Pinned skills — read-only here, pin changes are returned as actions */
+	pinned: Skill[];
 	recents: SkillUsage[];
+	/** Usage in the current project — its own section, and weighted up when ranking */
+	projectRecents: SkillUsage[];
+	/** Skills suggested for the last prompt — listed first while browsing */
+	suggested: Skill[];
+	/** Set while the preview pane is open (Tab / →) */
+	preview: SkillPreview | null;
+	/** Load diagnostics count, shown in the footer */
+	warningCount: number;
+	/** Names used by more than one namespace — rendered with a source badge */
+	ambiguousNames: Set<string>;
+	/** Collapsed groups (namespaces or recent sections) — only their header is listed */
+	collapsed: Set<string>;
+}
+
+export interface SkillPreview {
+	skill: Skill;
+	/** Body wrapped to the preview width */
+	lines: string[];
+	/** SKILL.md size in bytes, null if it couldn't be read */
+	size: number | null;
+	/** Estimated tokens of the body, null if it couldn't be read */
+	tokens: number | null;
+	scroll: number;
 }
 
 export function createPaletteState(
 	skills: Skill[],
-	queuedSkillName: string | null,
-	recents: SkillUsage[]
+	queued: Skill[],
+	recents: SkillUsage[],
+	pinned: Skill[] = [],
+	warningCount = 0,
+	projectRecents: SkillUsage[] = [],
+	collapsed: string[] = [],
+	history: string[] = [],
+	suggested: Skill[] = []
 ): PaletteRenderState {
-	const displayItems = buildDisplayList(skills, recents);
-	const selectedIndex = displayItems.findIndex(i => i.type === "skill");
+	const collapsedSet = new Set(collapsed);
+	const displayItems = buildDisplayList(skills, recents, projectRecents, collapsedSet, suggested);
+	const selectedIndex = displayItems.findIndex(isSelectable);
 	return {
 		allSkills: skills,
 		displayItems,
 		selectedIndex: selectedIndex >= 0 ? selectedIndex : 0,
 		query: "",
-		queuedSkillName,
+		cursor: 0,
+		paste: null,
+		parsed: parseQuery(""),
+		history,
+		historyIndex: -1,
+		draft: "",
+		queued: [...queued],
+		openedQueue: [...queued],
+		pinned,
 		recents,
+		projectRecents,
+		suggested,
+		preview: null,
+		warningCount,
+		ambiguousNames: findAmbiguousNames(skills),
+		collapsed: collapsedSet,
 	};
 }
 
+function findAmbiguousNames(skills: Skill[]): Set<string> {
+	const seenNames = new Set<string>();
+	const ambiguousNames = new Set<string>();
+	for (const skill of skills) {
+		if (seenNames.has(skill.name)) ambiguousNames.add(skill.name);
+		seenNames.add(skill.name);
+	}
+	return ambiguousNames;
+}
+
+/**
+ * Swap in a fresh skill list (live reload) while keeping the query, the
+ * selection and the working queue. Queued skills that no longer exist are
+ * dropped; the preview closes if its skill is gone.
+ */
+export function updatePaletteSkills(state: PaletteRenderState, skills: Skill[], warningCount = state.warningCount): void {
+	const selected = selectedSkill(state);
+
+	state.allSkills = skills;
+	state.warningCount = warningCount;
+	state.ambiguousNames = findAmbiguousNames(skills);
+	state.queued = state.queued
+		.map(q => skills.find(s => sameSkill(s, q)))
+		.filter((s): s is Skill => s != null);
+	state.pinned = state.pinned
+		.map(p => skills.find(s => sameSkill(s, p)) ?? p);
+	state.suggested = state.suggested
+		.map(q => skills.find(s => sameSkill(s, q)))
+		.filter((s): s is Skill => s != null);
+
+	if (state.preview) {
+		const previewed = skills.find(s => sameSkill(s, state.preview!.skill));
+		if (previewed) openPreview(state, previewed, state.preview.scroll);
+		else state.preview = null;
+	}
+
+	updateFilter(state);
+	if (selected) {
+		const idx = state.displayItems.findIndex(i => i.type === "skill" && i.skill && sameSkill(i.skill, selected));
+		if (idx >= 0) state.selectedIndex = idx;
+	}
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Input handling — returns actions, never mutates external state
 // ═══════════════════════════════════════════════════════════════════════════
 
+/** Skills, plus collapsed headers — otherwise a collapsed group couldn't be reached to expand it */
+function isSelectable(item: DisplayItem): boolean {
+	return item.type === "skill" || item.collapsed === true;
+}
+
 function firstSkillIndex(items: DisplayItem[]): number {
-	return items.findIndex(i => i.type === "skill");
+	return items.findIndex(isSelectable);
 }
 
 function nextSkillIndex(items: DisplayItem[], from: number, direction: 1 | -1): number {
 	let idx = from + direction;
 	while (idx >= 0 && idx < items.length) {
-		if (items[idx].type === "skill") return idx;
+		if (isSelectable(items[idx])) return idx;
 		idx += direction;
 	}
 	// Wrap
@@ -53,28 +175,225 @@ function nextSkillIndex(items: DisplayItem[], from: number, direction: 1 | -1):
 		return first >= 0 ? first : 0;
 	}
 	for (let i = items.length - 1; i >= 0; i--) {
-		if (items[i].type === "skill") return i;
+		if (isSelectable(items[i])) return i;
 	}
 	return 0;
 }
 
+/** Index of the header for the group the item at `idx` belongs to */
+function groupHeaderIndex(items: DisplayItem[], idx: number): number {
+	for (let i = idx; i >= 0; i--) {
+		if (items[i].type === "header") return i;
+	}
+	return -1;
+}
+
+/**
+ * First selectable row of the group starting at header `headerIdx` — a parent
+ * namespace with no skills of its own starts at its first child's row
+ */
+function groupStartIndex(items: DisplayItem[], headerIdx: number): number {
+	return isSelectable(items[headerIdx]) ? headerIdx : nextSkillIndex(items, headerIdx, 1);
+}
+
+/**
+ * PageDown / PageUp (or Tab / Shift+Tab): jump to the next group, or back to the start of the
+ * current one (then the previous). Search results have no groups — page instead.
+ */
+function jumpGroup(state: PaletteRenderState, direction: 1 | -1): void {
+	const items = state.displayItems;
+	const headers = items.map((item, i) => item.type === "header" ? i : -1).filter(i => i >= 0);
+	if (headers.length === 0) {
+		let idx = state.selectedIndex;
+		for (let n = 0; n < MAX_VISIBLE; n++) {
+			const next = idx + direction;
+			if (next < 0 || next >= items.length) break;
+			idx = next;
+		}
+		state.selectedIndex = idx;
+		return;
+	}
+
+	const current = groupHeaderIndex(items, state.selectedIndex);
+	if (direction === 1) {
+		const next = headers.find(h => h > current);
+		if (next !== undefined) state.selectedIndex = groupStartIndex(items, next);
+		return;
+	}
+	const currentStart = current >= 0 ? groupStartIndex(items, current) : 0;
+	if (state.selectedIndex > currentStart) {
+		state.selectedIndex = currentStart;
+		return;
+	}
+	// A skill-less parent starts where its first child does — skip past it
+	const prev = [...headers].reverse().find(h => h < current && groupStartIndex(items, h) < currentStart);
+	if (prev !== undefined) state.selectedIndex = groupStartIndex(items, prev);
+}
+
+function setCollapsed(state: PaletteRenderState, group: string, collapse: boolean): void {
+	if (collapse) state.collapsed.add(group);
+	else state.collapsed.delete(group);
+	updateFilter(state);
+	const headerIdx = state.displayItems.findIndex(i => i.type === "header" && i.namespace === group);
+	if (headerIdx >= 0) state.selectedIndex = groupStartIndex(state.displayItems, headerIdx);
+}
+
+export function isQueued(state: PaletteRenderState, skill: Skill): boolean {
+	return state.queued.some(q => sameSkill(q, skill));
+}
+
+function wasQueued(state: PaletteRenderState, skill: Skill): boolean {
+	return state.openedQueue.some(q => sameSkill(q, skill));
+}
+
+export function isPinned(state: PaletteRenderState, skill: Skill): boolean {
+	return state.pinned.some(p => sameSkill(p, skill));
+}
+
+function toggleQueued(state: PaletteRenderState, skill: Skill): void {
+	state.queued = isQueued(state, skill)
+		? state.queued.filter(q => !sameSkill(q, skill))
+		: [...state.queued, skill];
+}
+
 function updateFilter(state: PaletteRenderState): void {
-	const filtered = filterSkills(state.allSkills, state.query);
+	state.parsed = parseQuery(state.query);
+	const filtering = hasFilters(state.parsed);
+	const candidates = filtering
+		? applyFilters(state.allSkills, state.parsed, { recents: recentSkills(state.allSkills, state.recents, state.projectRecents), pinned: state.pinned })
+		: state.allSkills;
+	const matches = matchSkills(candidates, state.parsed.text, mergeUsage(state.recents, state.projectRecents));
 	// When searching: flat list sorted by score (no namespace grouping)
-	// When browsing: grouped by namespace with recents at top
-	if (state.query.trim()) {
-		state.displayItems = filtered.map(skill => ({
+	// When browsing: grouped by namespace with recents at top (filters alone: no recents)
+	if (state.parsed.text.trim()) {
+		state.displayItems = matches.map(({ skill, matchedBy, highlights }) => ({
 			type: "skill" as const,
 			skill,
 			namespace: skill.namespace,
+			matchedBy,
+			highlights,
 		}));
 	} else {
-		state.displayItems = buildDisplayList(filtered, state.recents);
+		state.displayItems = filtering
+			? buildDisplayList(candidates, [], [], state.collapsed)
+			: buildDisplayList(candidates, state.recents, state.projectRecents, state.collapsed, state.suggested);
 	}
 	const first = firstSkillIndex(state.displayItems);
 	state.selectedIndex = first >= 0 ? first : 0;
 }
 
+/** Run a key through the line editor; refilters if the query text changed */
+function editQuery(state: PaletteRenderState, data: string): boolean {
+	const line: LineState = { text: state.query, cursor: state.cursor, paste: state.paste };
+	if (!editLine(line, data)) return false;
+	state.cursor = line.cursor;
+	state.paste = line.paste;
+	if (line.text !== state.query) {
+		state.query = line.text;
+		state.historyIndex = -1;
+		updateFilter(state);
+	}
+	return true;
+}
+
+/**
+ * ↑ at the top of the list steps back through earlier queries (direction 1),
+ * ↓ on the last row steps forward again (-1) and, past the newest, restores
+ * the draft.
+ */
+function recallHistory(state: PaletteRenderState, direction: 1 | -1): void {
+	const next = state.historyIndex + direction;
+	if (next >= state.history.length) return;
+	if (state.historyIndex === -1) state.draft = state.query;
+	state.historyIndex = Math.max(next, -1);
+	state.query = next < 0 ? state.draft : state.history[next];
+	state.cursor = state.query.length;
+	updateFilter(state);
+}
+
+function selectedSkill(state: PaletteRenderState): Skill | undefined {
+	if (state.preview) return state.preview.skill;
+	const item = state.displayItems[state.selectedIndex];
+	return item?.type === "skill" ? item.skill : undefined;
+}
+
+function toPreviewLines(body: string): string[] {
+	// Skill files are untrusted — drop control chars so they can't restyle the terminal
+	const clean = stripControlChars(body.replace(/\t/g, "  "), true);
+	return clean.split("\n").flatMap(line => line ? wrapTextWithAnsi(line, PREVIEW_WIDTH) : [""]);
+}
+
+function openPreview(state: PaletteRenderState, skill: Skill, scroll = 0): void {
+	let lines: string[];
+	let size: number | null = null;
+	let tokens: number | null = null;
+	try {
+		const content = getSkillContent(skill);
+		lines = toPreviewLines(content);
+		size = getSkillSize(skill);
+		tokens = estimateTokens(content);
+	} catch {
+		lines = ["(could not read SKILL.md)"];
+	}
+	state.preview = { skill, lines, size, tokens, scroll: 0 };
+	scrollPreview(state.preview, scroll);
+}
+
+function scrollPreview(preview: SkillPreview, delta: number): void {
+	const maxScroll = Math.max(0, preview.lines.length - PREVIEW_VISIBLE);
+	preview.scroll = Math.max(0, Math.min(maxScroll, preview.scroll + delta));
+}
+
+/** Keys shared by list and preview mode: enter, ctrl+p, space / ctrl+space */
+function handleSkillAction(state: PaletteRenderState, data: string): PaletteAction | "handled" | undefined {
+	const skill = selectedSkill(state);
+
+	// Enter on a skill queued before the palette opened unqueues it (space may have already);
+	// on any other skill it commits the queue with that skill in it, so space then enter keeps it
+	if (matchesKey(data, "return")) {
+		if (!skill) return "handled";
+		if (wasQueued(state, skill)) {
+			state.queued = state.queued.filter(q => !sameSkill(q, skill));
+			return { type: "unqueue", skill, queued: state.queued };
+		}
+		if (!isQueued(state, skill)) state.queued = [...state.queued, skill];
+		return { type: "select", skill, queued: state.queued };
+	}
+
+	// Ctrl+P pins/unpins the selected skill for the whole session
+	if (matchesKey(data, "ctrl+p")) {
+		if (!skill) return "handled";
+		return { type: isPinned(state, skill) ? "unpin" : "pin", skill, queued: state.queued };
+	}
+
+	// Space toggles the selected skill without closing, so several can be queued at once.
+	// Once a query is typed, space belongs to it — Ctrl+Space toggles instead.
+	if (matchesKey(data, "ctrl+space") || (data === " " && (state.preview || !state.query))) {
+		if (skill) toggleQueued(state, skill);
+		return "handled";
+	}
+
+	return;
+}
+
+function handlePreviewInput(state: PaletteRenderState, preview: SkillPreview, data: string): PaletteAction | undefined {
+	if (matchesKey(data, "escape") || matchesKey(data, "left")) {
+		state.preview = null;
+		return;
+	}
+
+	const action = handleSkillAction(state, data);
+	if (action) return action === "handled" ? undefined : action;
+
+	if (matchesKey(data, "up")) scrollPreview(preview, -1);
+	else if (matchesKey(data, "down")) scrollPreview(preview, 1);
+	else if (matchesKey(data, "pageUp")) scrollPreview(preview, -PREVIEW_VISIBLE);
+	else if (matchesKey(data, "pageDown")) scrollPreview(preview, PREVIEW_VISIBLE);
+
+	// Typing is ignored while previewing
+	return;
+}
+
 /**
  * Handle input for the palette overlay.
  * Returns an action when the user makes a selection or cancels.
@@ -84,46 +403,73 @@ export function handlePaletteInput(
 	state: PaletteRenderState,
 	data: string
 ): PaletteAction | undefined {
+	if (state.preview) return handlePreviewInput(state, state.preview, data);
+
+	// A paste swallows everything until its end marker
+	if (state.paste !== null || data.includes("\x1b[200~")) {
+		editQuery(state, data);
+		return;
+	}
+
 	if (matchesKey(data, "escape")) {
 		return { type: "cancel" };
 	}
 
-	if (matchesKey(data, "return")) {
-		const item = state.displayItems[state.selectedIndex];
-		if (item?.type === "skill" && item.skill) {
-			if (item.skill.name === state.queuedSkillName) {
-				return { type: "unqueue", skill: item.skill };
-			} else {
-				return { type: "select", skill: item.skill };
-			}
+	// ← / → move the cursor within a query; at its end (or with no query) → opens things
+	if ((matchesKey(data, "left") && state.query) || (matchesKey(data, "right") && state.cursor < state.query.length)) {
+		editQuery(state, data);
+		return;
+	}
+
+	// Collapsed header selected: Enter / → expands it
+	const current = state.displayItems[state.selectedIndex];
+	if (current?.type === "header") {
+		if (matchesKey(data, "return") || matchesKey(data, "right")) {
+			setCollapsed(state, current.namespace!, false);
+			return;
 		}
+	} else if (current && matchesKey(data, "left")) {
+		// ← on a skill collapses its group (empty query only — with one, ← moves the cursor)
+		setCollapsed(state, current.namespace!, true);
 		return;
 	}
 
-	if (matchesKey(data, "up")) {
-		state.selectedIndex = nextSkillIndex(state.displayItems, state.selectedIndex, -1);
+	if (matchesKey(data, "pageDown") || matchesKey(data, "tab")) {
+		jumpGroup(state, 1);
+		return;
+	}
+	if (matchesKey(data, "pageUp") || matchesKey(data, "shift+tab")) {
+		jumpGroup(state, -1);
 		return;
 	}
 
-	if (matchesKey(data, "down")) {
-		state.selectedIndex = nextSkillIndex(state.displayItems, state.selectedIndex, 1);
+	const action = handleSkillAction(state, data);
+	if (action) return action === "handled" ? undefined : action;
+
+	// → opens the preview pane for the selected skill
+	if (matchesKey(data, "right")) {
+		const skill = selectedSkill(state);
+		if (skill) openPreview(state, skill);
 		return;
 	}
 
-	if (matchesKey(data, "backspace")) {
-		if (state.query.length > 0) {
-			state.query = state.query.slice(0, -1);
-			updateFilter(state);
-		}
+	if (matchesKey(data, "up")) {
+		const atTop = state.selectedIndex <= firstSkillIndex(state.displayItems);
+		if (atTop && state.history.length > 0) recallHistory(state, 1);
+		else state.selectedIndex = nextSkillIndex(state.displayItems, state.selectedIndex, -1);
 		return;
 	}
 
-	// Printable
-	if (data.length === 1 && data.charCodeAt(0) >= 32) {
-		state.query += data;
-		updateFilter(state);
+	if (matchesKey(data, "down")) {
+		// A recalled query's results can still be browsed — only past the last row does ↓ step forward
+		const atBottom = !state.displayItems.slice(state.selectedIndex + 1).some(isSelectable);
+		if (state.historyIndex >= 0 && atBottom) recallHistory(state, -1);
+		else state.selectedIndex = nextSkillIndex(state.displayItems, state.selectedIndex, 1);
+		return;
 	}
 
+	// Everything else edits the query: typing, paste, backspace, ^W, ^U, ^K, Home/End…
+	editQuery(state, data);
 	return;
 }
 
@@ -131,12 +477,91 @@ export function handlePaletteInput(
 // Rendering — pure function, no side effects
 // ═══════════════════════════════════════════════════════════════════════════
 
+/** The query as typed, with filter operators shown as chips and the cursor in place */
+function renderQuery(state: PaletteRenderState, theme: Theme, cursor: string): string {
+	const spans: { start: number; end: number; style?: (s: string) => string }[] = [];
+	let pos = 0;
+	for (const token of state.parsed.tokens) {
+		spans.push({ start: pos, end: token.start });
+		const color = token.kind === "exclude" ? "error" : "accent";
+		spans.push({
+			start: token.start,
+			end: token.start + token.raw.length,
+			style: token.kind === "text" ? undefined : s => theme.bg("selectedBg", theme.fg(color, s)),
+		});
+		pos = token.start + token.raw.length;
+	}
+	spans.push({ start: pos, end: state.query.length });
+
+	let out = "";
+	for (const { start, end, style } of spans) {
+		const paint = (from: number, to: number) => {
+			const text = state.query.slice(from, to);
+			return text && style ? style(text) : text;
+		};
+		if (state.cursor >= start && state.cursor < end) {
+			out += paint(start, state.cursor) + cursor + paint(state.cursor, end);
+		} else {
+			out += paint(start, end);
+		}
+	}
+	return state.cursor === state.query.length ? out + cursor : out;
+}
+
+function formatSize(bytes: number): string {
+	return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/** Stacked preview: skill header, metadata, then a scrolling window over the body */
+function renderPreview(
+	state: PaletteRenderState,
+	preview: SkillPreview,
+	theme: Theme,
+	row: (content?: string) => string,
+	emptyRow: () => string,
+	divider: () => string
+): string[] {
+	const { skill } = preview;
+	const lines: string[] = [];
+
+	lines.push(emptyRow());
+	const badges = (isPinned(state, skill) ? ` ${theme.fg("warning", "⚑")}` : "") +
+		(isQueued(state, skill) ? ` ${theme.fg("success", "●")}` : "");
+	lines.push(row(`${theme.fg("accent", "◆")} ${theme.bold(theme.fg("accent", `${skill.namespace}:${skill.name}`))}${badges}`));
+	const meta = [
+		skill.namespace,
+		skill.source,
+		preview.size != null ? formatSize(preview.size) : null,
+		preview.tokens != null ? `~${formatTokens(preview.tokens)} tokens` : null,
+	]
+		.filter(Boolean)
+		.join(" · ");
+	lines.push(row(theme.fg("dim", meta)));
+	lines.push(row(theme.fg("dim", skill.filePath)));
+	lines.push(emptyRow());
+	lines.push(divider());
+	lines.push(emptyRow());
+
+	const visible = preview.lines.slice(preview.scroll, preview.scroll + PREVIEW_VISIBLE);
+	for (const line of visible) lines.push(row(`  ${line}`));
+	for (let i = visible.length; i < PREVIEW_VISIBLE; i++) lines.push(emptyRow());
+
+	lines.push(emptyRow());
+	if (preview.lines.length > PREVIEW_VISIBLE) {
+		const last = Math.min(preview.scroll + PREVIEW_VISIBLE, preview.lines.length);
+		lines.push(row(theme.fg("dim", `lines ${preview.scroll + 1}–${last} of ${preview.lines.length}`)));
+		lines.push(emptyRow());
+	}
+
+	return lines;
+}
+
 export function renderPalette(
 	state: PaletteRenderState,
 	width: number,
 	theme: Theme
 ): string[] {
-	const boxW = Math.min(width, 76);
+	const boxW = Math.min(width, BOX_WIDTH);
 	const innerW = boxW - 2;
 	const { row, emptyRow, divider, topBorder, bottomBorder } = makeBox(innerW, theme);
 
@@ -150,18 +575,20 @@ export function renderPalette(
 	// Search input
 	const cursor = theme.fg("accent", "│");
 	const queryDisplay = state.query
-		? `${state.query}${cursor}`
-		: `${cursor}${theme.fg("dim", theme.fg("muted", "type to filter... (namespace:skill)"))}`;
+		? renderQuery(state, theme, cursor)
+		: `${cursor}${theme.fg("dim", theme.fg("muted", "type to filter... (namespace:skill, ns: src: desc: is: -term)"))}`;
 	lines.push(row(`${theme.fg("dim", "◎")}  ${queryDisplay}`));
 
 	lines.push(emptyRow());
 	lines.push(divider());
 
 	// Skill list with namespace headers
-	const maxVisible = 14;
+	const maxVisible = MAX_VISIBLE;
 	const skillItems = state.displayItems;
 
-	if (skillItems.length === 0) {
+	if (state.preview) {
+		lines.push(...renderPreview(state, state.preview, theme, row, emptyRow, divider));
+	} else if (skillItems.length === 0) {
 		lines.push(emptyRow());
 		lines.push(row(theme.fg("dim", theme.fg("muted", "No matching skills"))));
 		lines.push(emptyRow());
@@ -179,39 +606,72 @@ export function renderPalette(
 			const item = skillItems[i];
 
 			if (item.type === "header") {
-				const isRecent = item.namespace === "recent";
-				const nsLabel = isRecent
-					? theme.bold(theme.fg("success", "★ recent"))
-					: theme.bold(theme.fg("warning", item.namespace!));
-				lines.push(row(`${nsLabel}`));
+				const nsLabel = item.namespace === SUGGESTED_GROUP
+					? theme.bold(theme.fg("accent", "◆ suggested"))
+					: item.namespace === RECENT_GROUP
+						? theme.bold(theme.fg("success", "★ recent"))
+						: item.namespace === PROJECT_RECENT_GROUP
+							? theme.bold(theme.fg("success", "★ recent in this project"))
+							: theme.bold(theme.fg("warning", item.namespace!.split("/").at(-1)!));
+				const arrow = theme.fg("dim", item.collapsed ? "▸" : "▾");
+				const count = item.count !== undefined ? theme.fg("dim", ` (${item.count})`) : "";
+				// Nested namespaces indent under their parent, showing only their own segment
+				const header = `${"  ".repeat(item.depth ?? 0)}${arrow} ${nsLabel}${count}`;
+				lines.push(row(i === state.selectedIndex ? theme.bg("selectedBg", header) : header));
 				continue;
 			}
 
 			const skill = item.skill!;
 			const isSelected = i === state.selectedIndex;
-			const isQueued = skill.name === state.queuedSkillName;
+			const queuePos = state.queued.findIndex(q => sameSkill(q, skill));
 
 			const prefix = isSelected ? theme.fg("accent", "▸") : theme.fg("dim", "·");
-			const queuedBadge = isQueued ? ` ${theme.fg("success", "●")}` : "";
-			const localBadge = skill.source === "local" ? ` ${theme.fg("dim", "[local]")}` : "";
-			const nameStr = isSelected ? theme.bold(theme.fg("accent", skill.name)) : skill.name;
-			// In flat mode (searching), show namespace tag; in grouped mode, skip it
-			const nsTag = state.query.trim() ? theme.fg("dim", `${item.namespace} `) : "";
-			// Show usage count for recent skills
-			const recentEntry = item.namespace === "recent"
-				? state.recents.find(r => r.name === skill.name)
+			// Show queue position when several skills are queued so the injection order is visible
+			const queuedBadge = queuePos < 0
+				? ""
+				: ` ${theme.fg("success", state.queued.length > 1 ? `●${queuePos + 1}` : "●")}`;
+			const pinnedBadge = isPinned(state, skill) ? ` ${theme.fg("warning", "⚑")}` : "";
+			const isRecent = item.namespace === RECENT_GROUP || item.namespace === PROJECT_RECENT_GROUP;
+			// Same name in several namespaces: always show where each one comes from
+			const isAmbiguous = state.ambiguousNames.has(skill.name);
+			const localBadge = skill.source === "local" || isAmbiguous ? ` ${theme.fg("dim", `[${skill.source}]`)}` : "";
+			// Search results highlight the characters that matched, in whichever field matched
+			const hl = item.highlights ?? {};
+			const matchStyle = (s: string) => theme.bold(theme.fg("warning", s));
+			const dim = (s: string) => theme.fg("dim", s);
+			const nameStr = highlightChars(skill.name, hl.name, isSelected ? s => theme.bold(theme.fg("accent", s)) : s => s, matchStyle);
+			// In flat mode (searching), show namespace tag; in grouped mode, skip it unless the
+			// recent or suggested section would otherwise show two identical names
+			const nsTag = state.parsed.text.trim()
+				? `${highlightChars(item.namespace!, hl.namespace, dim, matchStyle)} `
+				: isAmbiguous && (isRecent || item.namespace === SUGGESTED_GROUP) ? theme.fg("dim", `${skill.namespace}:`) : "";
+			// Show usage count for recent skills — project count in the project section
+			const recentEntry = isRecent
+				? (item.namespace === PROJECT_RECENT_GROUP ? state.projectRecents : state.recents).find(r => sameSkill(r, skill))
 				: null;
 			const countTag = recentEntry && recentEntry.count > 1
 				? theme.fg("dim", ` ×${recentEntry.count}`)
 				: "";
-			const usedWidth = visibleWidth(nsTag) + visibleWidth(skill.name) + visibleWidth(countTag) + visibleWidth(localBadge) + 14;
-			const maxDescLen = Math.max(0, innerW - usedWidth);
-			const descStr = maxDescLen > 3
-				? theme.fg("dim", truncateToWidth(skill.description, maxDescLen, "…"))
+			// Matched through an alias (~k8s) or tag (#kubernetes) — show which, or the row looks unrelated
+			const muted = (s: string) => theme.fg("muted", s);
+			const matchTag = item.matchedBy
+				? ` ${muted(item.matchedBy.kind === "alias" ? "~" : "#")}${highlightChars(item.matchedBy.text, hl[item.matchedBy.kind], muted, matchStyle)}`
 				: "";
+			// Estimated size, so a skill that would eat the context window is visible before it's queued
+			const tokenTag = skill.tokens !== undefined ? theme.fg("dim", ` ~${formatTokens(skill.tokens)}`) : "";
+			const usedWidth = 2 * (item.depth ?? 0) + visibleWidth(nsTag) + visibleWidth(skill.name) + visibleWidth(countTag) + visibleWidth(matchTag) + visibleWidth(localBadge) + visibleWidth(queuedBadge) + visibleWidth(pinnedBadge) + visibleWidth(tokenTag) + 14;
+			const maxDescLen = Math.max(0, innerW - usedWidth);
+			// A description match past the cut-off shows a snippet around it instead of the start
+			const descSnippet = hl.description ? snippetAround(skill.description, hl.description, maxDescLen) : null;
+			const descStr = maxDescLen <= 3
+				? ""
+				: descSnippet
+					? highlightChars(descSnippet.text, descSnippet.positions, dim, matchStyle)
+					: theme.fg("dim", truncateToWidth(skill.description, maxDescLen, "…"));
 			const sep = descStr ? `  ${theme.fg("dim", "—")}  ` : "";
 
-			lines.push(row(`  ${prefix} ${nsTag}${nameStr}${countTag}${localBadge}${queuedBadge}${sep}${descStr}`));
+			const indent = "  ".repeat(item.depth ?? 0);
+			lines.push(row(`${indent}  ${prefix} ${nsTag}${nameStr}${matchTag}${countTag}${localBadge}${pinnedBadge}${queuedBadge}${tokenTag}${sep}${descStr}`));
 		}
 
 		lines.push(emptyRow());
@@ -230,11 +690,22 @@ export function renderPalette(
 	lines.push(divider());
 	lines.push(emptyRow());
 
+	// Load problems are otherwise invisible — point at the report
+	if (state.warningCount > 0) {
+		const noun = state.warningCount === 1 ? "warning" : "warnings";
+		lines.push(row(`${theme.fg("warning", `⚠ ${state.warningCount} skill ${noun}`)}  ${theme.fg("dim", "— run /skill doctor")}`));
+	}
+
 	// Hints
-	const hints = state.queuedSkillName
-		? `${theme.fg("muted", "↑↓")} ${theme.fg("dim", "nav")}  ${theme.fg("muted", "enter")} ${theme.fg("dim", "select/unqueue")}  ${theme.fg("muted", "esc")} ${theme.fg("dim", "cancel")}`
-		: `${theme.fg("muted", "↑↓")} ${theme.fg("dim", "nav")}  ${theme.fg("muted", "enter")} ${theme.fg("dim", "select")}  ${theme.fg("muted", "esc")} ${theme.fg("dim", "cancel")}`;
-	lines.push(row(hints));
+	const hint = (key: string, label: string) => `${theme.fg("muted", key)} ${theme.fg("dim", label)}`;
+	const multiKey = state.query && !state.preview ? "^space" : "space";
+	const current = selectedSkill(state);
+	const enterLabel = current && wasQueued(state, current) ? "unqueue" : "select";
+	const hints = state.preview
+		? [hint("↑↓", "scroll"), hint("space", "multi"), hint("^p", "pin"), hint("enter", enterLabel), hint("←", "back")]
+		: [hint("↑↓", "nav"), hint("tab", "group"), hint("←", "fold"), hint(multiKey, "multi"), hint("^p", "pin"), hint("→", "preview"), hint("enter", enterLabel), hint("esc", "cancel")];
+	// Wrapped rather than clipped — every key stays readable in a narrow box
+	for (const line of wrapParts(hints, "  ", innerW - 1)) lines.push(row(line));
 
 	// Bottom border
 	lines.push(bottomBorder());
@@ -0,0 +1,104 @@
+import { matchesKey } from "@mariozechner/pi-tui";
+import type { Theme } from "../types";
+import { makeBox, stripControlChars } from "../lib/render-helpers";
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Report render state — a read-only, scrollable list of styled rows
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ReportRow {
+	text: string;
+	style?: "heading" | "warning" | "error" | "success" | "dim";
+}
+
+export interface ReportRenderState {
+	title: string;
+	rows: ReportRow[];
+	scroll: number;
+}
+
+const BOX_WIDTH = 96;
+const MAX_VISIBLE = 20;
+
+export function createReportState(title: string, rows: ReportRow[]): ReportRenderState {
+	return { title, rows, scroll: 0 };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Input handling
+// ═══════════════════════════════════════════════════════════════════════════
+
+function scrollBy(state: ReportRenderState, delta: number): void {
+	const maxScroll = Math.max(0, state.rows.length - MAX_VISIBLE);
+	state.scroll = Math.max(0, Math.min(maxScroll, state.scroll + delta));
+}
+
+/**
+ * Handle input for a report overlay.
+ * Returns "close" when the user dismisses it, otherwise scrolls and returns undefined.
+ */
+export function handleReportInput(state: ReportRenderState, data: string): "close" | undefined {
+	if (matchesKey(data, "escape") || matchesKey(data, "return") || data === "q") return "close";
+
+	if (matchesKey(data, "up")) scrollBy(state, -1);
+	else if (matchesKey(data, "down")) scrollBy(state, 1);
+	else if (matchesKey(data, "pageUp")) scrollBy(state, -MAX_VISIBLE);
+	else if (matchesKey(data, "pageDown")) scrollBy(state, MAX_VISIBLE);
+
+	return;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Rendering — pure function, no side effects
+// ═══════════════════════════════════════════════════════════════════════════
+
+function styleRow(row: ReportRow, theme: Theme): string {
+	// Rows carry skill names and paths from disk — untrusted
+	const text = stripControlChars(row.text);
+	switch (row.style) {
+		case "heading": return theme.bold(theme.fg("accent", text));
+		case "warning": return theme.fg("warning", text);
+		case "error": return theme.fg("error", text);
+		case "success": return theme.fg("success", text);
+		case "dim": return theme.fg("dim", text);
+		default: return text;
+	}
+}
+
+export function renderReport(
+	state: ReportRenderState,
+	width: number,
+	theme: Theme
+): string[] {
+	const boxW = Math.min(width, BOX_WIDTH);
+	const innerW = boxW - 2;
+	const { row, emptyRow, divider, topBorder, bottomBorder } = makeBox(innerW, theme);
+
+	const lines: string[] = [];
+	lines.push(topBorder(state.title));
+	lines.push(emptyRow());
+
+	const visible = state.rows.slice(state.scroll, state.scroll + MAX_VISIBLE);
+	for (const r of visible) lines.push(row(styleRow(r, theme)));
+
+	lines.push(emptyRow());
+
+	if (state.rows.length > MAX_VISIBLE) {
+		const last = Math.min(state.scroll + MAX_VISIBLE, state.rows.length);
+		lines.push(row(theme.fg("dim", `${state.scroll + 1}–${last} of ${state.rows.length}`)));
+		lines.push(emptyRow());
+	}
+
+	lines.push(divider());
+	lines.push(emptyRow());
+	lines.push(row(`${theme.fg("muted", "↑↓")} ${theme.fg("dim", "scroll")}  ${theme.fg("muted", "esc")} ${theme.fg("dim", "close")}`));
+	lines.push(bottomBorder());
+
+	// Center the box
+	const leftPad = Math.max(0, Math.floor((width - boxW) / 2));
+	if (leftPad > 0) {
+		return lines.map(line => " ".repeat(leftPad) + line);
+	}
+
+	return lines;
+}
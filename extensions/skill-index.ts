@@ -0,0 +1,302 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import type { DirEntryInfo, Skill, SkillDirConfig, SkillFile, SkillFsReader, SkillLoadResult } from "./types";
+import { directReader, loadSkillsWithDiagnostics } from "./skill-loader";
+import { applyUserAliases, getSkillDirs, loadConfig, loadProjectConfig } from "./config";
+import { sameSkill } from "./lib/skill-key";
+
+export const INDEX_CACHE_FILE = path.join(os.homedir(), ".pi-skill-picker", "skill-index.json");
+const CACHE_VERSION = 4;
+// Watchers don't follow symlinks out of a skills dir, so still revalidate now and then
+const WATCHED_MAX_AGE_MS = 10_000;
+// Editors write files in several steps — wait for a burst of events to settle
+const RELOAD_DEBOUNCE_MS = 200;
+
+interface CachedDir {
+	mtimeMs: number;
+	entries: DirEntryInfo[];
+}
+
+interface CachedSkillFile {
+	mtimeMs: number;
+	size: number;
+	file: SkillFile;
+}
+
+interface PersistedIndex {
+	version: number;
+	dirs: Record<string, CachedDir>;
+	files: Record<string, CachedSkillFile>;
+}
+
+/**
+ * Reader that remembers directory listings and parsed SKILL.md files,
+ * keyed by path and invalidated by mtime. A rescan through it costs one stat
+ * per directory and skill file instead of a readdir/read + YAML parse.
+ */
+export class CachingReader implements SkillFsReader {
+	private dirs = new Map<string, CachedDir>();
+	private files = new Map<string, CachedSkillFile>();
+	private touched = new Set<string>();
+	/** Set when anything was (re)read — i.e. the persisted cache is out of date */
+	dirty = false;
+
+	readDir(dir: string): DirEntryInfo[] {
+		const { mtimeMs } = fs.statSync(dir);
+		this.touched.add(dir);
+		const cached = this.dirs.get(dir);
+		if (cached && cached.mtimeMs === mtimeMs) return cached.entries;
+
+		const entries = directReader.readDir(dir);
+		this.dirs.set(dir, { mtimeMs, entries });
+		this.dirty = true;
+		return entries;
+	}
+
+	readSkillFile(filePath: string): SkillFile {
+		const { mtimeMs, size } = fs.statSync(filePath);
+		this.touched.add(filePath);
+		const cached = this.files.get(filePath);
+		if (cached && cached.mtimeMs === mtimeMs && cached.size === size) return cached.file;
+
+		const file = directReader.readSkillFile(filePath);
+		this.files.set(filePath, { mtimeMs, size, file });
+		this.dirty = true;
+		return file;
+	}
+
+	/** Start tracking which entries a scan uses */
+	beginScan(): void {
+		this.touched.clear();
+	}
+
+	/**
+	 * Drop entries under `roots` the last scan didn't reach (deleted files).
+	 * Entries elsewhere — another project's `.pi/skills` — are left for the
+	 * session that scans them.
+	 */
+	prune(roots: string[]): void {
+		const scanned = (key: string) => roots.some(root => key === root || key.startsWith(root + path.sep));
+		for (const key of this.dirs.keys()) {
+			if (!this.touched.has(key) && scanned(key)) { this.dirs.delete(key); this.dirty = true; }
+		}
+		for (const key of this.files.keys()) {
+			if (!this.touched.has(key) && scanned(key)) { this.files.delete(key); this.dirty = true; }
+		}
+	}
+
+	toJSON(): PersistedIndex {
+		return {
+			version: CACHE_VERSION,
+			dirs: Object.fromEntries(this.dirs),
+			files: Object.fromEntries(this.files),
+		};
+	}
+
+	/** Load a persisted cache, dropping entries a truncated or hand-edited file left malformed */
+	restore(data: unknown): void {
+		const index = data as Partial<PersistedIndex> | null;
+		if (!index || typeof index !== "object" || index.version !== CACHE_VERSION) return;
+		this.dirs = new Map(validEntries(index.dirs, isCachedDir));
+		this.files = new Map(validEntries(index.files, isCachedSkillFile));
+	}
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function validEntries<T>(record: unknown, isValid: (value: unknown) => value is T): [string, T][] {
+	if (!isObject(record)) return [];
+	return Object.entries(record).filter((entry): entry is [string, T] => isValid(entry[1]));
+}
+
+function isCachedDir(value: unknown): value is CachedDir {
+	return isObject(value) && typeof value.mtimeMs === "number" && Array.isArray(value.entries)
+		&& value.entries.every(e => isObject(e) && typeof e.name === "string"
+			&& typeof e.isDirectory === "boolean" && typeof e.isSymlink === "boolean");
+}
+
+function isCachedSkillFile(value: unknown): value is CachedSkillFile {
+	return isObject(value) && typeof value.mtimeMs === "number" && typeof value.size === "number"
+		&& isObject(value.file) && isObject(value.file.frontmatter) && typeof value.file.tokens === "number";
+}
+
+export interface SkillIndexOptions {
+	/** Where to persist the cache between sessions; null keeps it in memory only */
+	cacheFile?: string | null;
+	/** Resolve the dirs to scan — defaults to the config files */
+	resolveDirs?: (diagnostics: SkillLoadResult["diagnostics"]) => SkillDirConfig[];
+	/** Add aliases from outside SKILL.md — defaults to the config files' `aliases` */
+	applyAliases?: (skills: Skill[]) => Skill[];
+}
+
+/**
+ * In-memory skill index shared by the palette, `/skill <name>` and argument
+ * completions.
+ *
+ * `get(maxAgeMs)` returns the last scan if it's younger than `maxAgeMs` and no
+ * watcher reported a change; otherwise it rescans through the caching reader,
+ * which only re-reads what changed on disk. An explicit `get(0)` always rescans.
+ */
+export class SkillIndex {
+	private reader = new CachingReader();
+	private result: SkillLoadResult | null = null;
+	private scannedAt = 0;
+	private changed = true;
+	private restored = false;
+	private watchers = new Map<string, fs.FSWatcher>();
+	private watching = false;
+	private listeners = new Set<(result: SkillLoadResult) => void>();
+	/** The skills listeners last saw — what a watcher-triggered rescan is compared against */
+	private notified: string | null = null;
+	private reloadTimer: ReturnType<typeof setTimeout> | null = null;
+	private readonly cacheFile: string | null;
+	private readonly resolveDirs: (diagnostics: SkillLoadResult["diagnostics"]) => SkillDirConfig[];
+	private readonly applyAliases: (skills: Skill[]) => Skill[];
+
+	constructor(options: SkillIndexOptions = {}) {
+		this.cacheFile = options.cacheFile === undefined ? INDEX_CACHE_FILE : options.cacheFile;
+		this.resolveDirs = options.resolveDirs ?? (diagnostics => getSkillDirs(process.cwd(), diagnostics));
+		this.applyAliases = options.applyAliases ?? (skills => applyUserAliases(skills, loadConfig(), loadProjectConfig()));
+	}
+
+	get(maxAgeMs?: number): SkillLoadResult {
+		// With live watchers, changes under the dirs are pushed to us — trust the result longer,
+		// unless the caller asked for a rescan with an explicit 0
+		const maxAge = maxAgeMs === 0 || this.watchers.size === 0 ? maxAgeMs ?? 0 : Math.max(maxAgeMs ?? 0, WATCHED_MAX_AGE_MS);
+		const fresh = this.result && !this.changed && Date.now() - this.scannedAt < maxAge;
+		if (fresh) return this.result!;
+		return this.rescan();
+	}
+
+	/** Force the next get() to rescan (changed files are still re-read by mtime) */
+	invalidate(): void {
+		this.changed = true;
+	}
+
+	/**
+	 * Subscribe to skill list changes reported by the watchers. Listeners get the
+	 * new scan once a burst of fs events settles, only if the skills differ.
+	 * Returns an unsubscribe function.
+	 */
+	onChange(listener: (result: SkillLoadResult) => void): () => void {
+		this.listeners.add(listener);
+		return () => { this.listeners.delete(listener); };
+	}
+
+	/** Keep fs watchers on the scanned dirs so get() can skip revalidation */
+	setWatching(enabled: boolean): void {
+		this.watching = enabled;
+		if (!enabled) this.closeWatchers();
+		else this.invalidate();
+	}
+
+	dispose(): void {
+		this.closeWatchers();
+		this.listeners.clear();
+		if (this.reloadTimer) clearTimeout(this.reloadTimer);
+		this.reloadTimer = null;
+	}
+
+	private handleFsEvent(): void {
+		this.invalidate();
+		if (this.listeners.size === 0) return;
+		if (this.reloadTimer) clearTimeout(this.reloadTimer);
+		this.reloadTimer = setTimeout(() => {
+			this.reloadTimer = null;
+			// A get() in the meantime may have rescanned already, so compare with what
+			// listeners last saw rather than with the current result
+			const result = this.get();
+			const snapshot = JSON.stringify(result.skills);
+			if (snapshot === this.notified) return;
+			this.notified = snapshot;
+			for (const listener of this.listeners) listener(result);
+		}, RELOAD_DEBOUNCE_MS);
+	}
+
+	private rescan(): SkillLoadResult {
+		this.restoreFromDisk();
+
+		const configDiagnostics: SkillLoadResult["diagnostics"] = [];
+		const dirs = this.resolveDirs(configDiagnostics);
+
+		this.reader.beginScan();
+		const result = loadSkillsWithDiagnostics(dirs, this.reader);
+		this.reader.prune(dirs.map(d => d.dir));
+
+		this.result = { skills: this.applyAliases(result.skills), diagnostics: [...configDiagnostics, ...result.diagnostics] };
+		this.scannedAt = Date.now();
+		this.changed = false;
+		this.notified ??= JSON.stringify(this.result.skills);
+
+		if (this.watching) this.syncWatchers(dirs);
+		this.persist();
+		return this.result;
+	}
+
+	private restoreFromDisk(): void {
+		if (this.restored || !this.cacheFile) return;
+		this.restored = true;
+		try {
+			this.reader.restore(JSON.parse(fs.readFileSync(this.cacheFile, "utf-8")));
+		} catch {
+			// No cache yet, or unreadable — start cold
+		}
+	}
+
+	private persist(): void {
+		if (!this.cacheFile || !this.reader.dirty) return;
+		try {
+			const dir = path.dirname(this.cacheFile);
+			if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+			// Temp file + rename, so another session never reads (or leaves) a half-written cache
+			const tmpFile = `${this.cacheFile}.${process.pid}.tmp`;
+			fs.writeFileSync(tmpFile, JSON.stringify(this.reader), { mode: 0o600 });
+			fs.renameSync(tmpFile, this.cacheFile);
+			this.reader.dirty = false;
+		} catch {
+			// silently fail — the in-memory index still works
+		}
+	}
+
+	private syncWatchers(dirs: SkillDirConfig[]): void {
+		const wanted = new Set(dirs.map(d => d.dir).filter(d => fs.existsSync(d)));
+		for (const [dir, watcher] of this.watchers) {
+			if (!wanted.has(dir)) { watcher.close(); this.watchers.delete(dir); }
+		}
+		for (const dir of wanted) {
+			if (this.watchers.has(dir)) continue;
+			try {
+				const watcher = fs.watch(dir, { recursive: true, persistent: false }, () => this.handleFsEvent());
+				// A watcher that dies can't be trusted to report changes — fall back to polling
+				watcher.on("error", () => { watcher.close(); this.watchers.delete(dir); this.invalidate(); });
+				this.watchers.set(dir, watcher);
+			} catch {
+				// Recursive watching unsupported here — get() keeps revalidating by mtime
+			}
+		}
+	}
+
+	private closeWatchers(): void {
+		for (const watcher of this.watchers.values()) watcher.close();
+		this.watchers.clear();
+	}
+}
+
+/**
+ * Re-resolve previously picked skills against a fresh scan. A skill is kept
+ * (with its new metadata) if its qualified name still exists — covering a moved
+ * file — or if its file still exists under a new name. Anything else was removed.
+ */
+export function reconcileSkills(current: Skill[], available: Skill[]): { kept: Skill[]; removed: Skill[] } {
+	const kept: Skill[] = [];
+	const removed: Skill[] = [];
+	for (const skill of current) {
+		const match = available.find(s => sameSkill(s, skill)) ?? available.find(s => s.filePath === skill.filePath);
+		if (match && !kept.some(k => sameSkill(k, match))) kept.push(match);
+		else if (!match) removed.push(skill);
+	}
+	return { kept, removed };
+}
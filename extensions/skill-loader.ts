@@ -1,36 +1,128 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
-import * as os from "node:os";
-import type { Skill, SkillDirConfig } from "./types";
+import { parse as parseYaml } from "yaml";
+import type {
+	DirEntryInfo,
+	Skill,
+	SkillDiagnostic,
+	SkillDirConfig,
+	SkillFile,
+	SkillFrontmatter,
+	SkillFsReader,
+	SkillLoadResult,
+} from "./types";
+import { getSkillDirs } from "./config";
+import { skillKey } from "./lib/skill-key";
+import { estimateTokens } from "./tokens";
 
-export function parseFrontmatter(content: string, fallbackName: string): { name: string; description: string } {
-	if (!content.startsWith("---")) return { name: fallbackName, description: "" };
+function splitFrontmatter(content: string): { yaml: string | null; body: string } {
+	const normalized = content.replace(/\r\n?/g, "\n");
+	if (!normalized.startsWith("---")) return { yaml: null, body: normalized };
 
-	const endIndex = content.indexOf("\n---", 3);
-	if (endIndex === -1) return { name: fallbackName, description: "" };
+	const endIndex = normalized.indexOf("\n---", 3);
+	if (endIndex === -1) return { yaml: null, body: normalized };
 
-	const fm = content.slice(4, endIndex);
-	let name = fallbackName;
-	let description = "";
+	return { yaml: normalized.slice(4, endIndex), body: normalized.slice(endIndex + 4).trim() };
+}
 
-	for (const line of fm.split("\n")) {
+/**
+ * Line-based fallback for frontmatter that isn't valid YAML — most commonly an
+ * unquoted description containing ": ". Only name and description are read.
+ */
+function parseLooseFrontmatter(yaml: string): Record<string, unknown> {
+	const data: Record<string, unknown> = {};
+	for (const line of yaml.split("\n")) {
 		const colonIndex = line.indexOf(":");
 		if (colonIndex === -1) continue;
 		const key = line.slice(0, colonIndex).trim();
 		const value = line.slice(colonIndex + 1).trim();
-		if (key === "name") name = value;
-		if (key === "description") description = value;
+		if (key === "name" || key === "description") data[key] = value;
+	}
+	return data;
+}
+
+function toText(value: unknown): string | undefined {
+	if (typeof value === "string") return value.trim() || undefined;
+	if (typeof value === "number" || typeof value === "boolean") return String(value);
+	return undefined;
+}
+
+/** Accept a YAML list or a delimited string */
+function toList(value: unknown, separator: RegExp): string[] | undefined {
+	const items = Array.isArray(value)
+		? value.map(toText).filter((v): v is string => v != null)
+		: toText(value)?.split(separator).map(v => v.trim()).filter(Boolean);
+	return items && items.length > 0 ? items : undefined;
+}
+
+function toStringMap(value: unknown): Record<string, string> | undefined {
+	if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+	const map: Record<string, string> = {};
+	for (const [key, v] of Object.entries(value)) {
+		const text = toText(v);
+		if (text != null) map[key] = text;
 	}
+	return Object.keys(map).length > 0 ? map : undefined;
+}
 
-	return { name, description };
+/**
+ * `infra/aws`, `infra:aws` or ` infra / aws ` → `infra/aws`. ":" separates the
+ * namespace from the name in queries, so it can't be part of one.
+ */
+export function normalizeNamespace(value: string | undefined): string | undefined {
+	const normalized = value?.split(/[\/:]/).map(part => part.trim()).filter(Boolean).join("/");
+	return normalized || undefined;
+}
+
+export function parseFrontmatter(content: string, fallbackName: string): SkillFrontmatter {
+	const { yaml } = splitFrontmatter(content);
+	if (yaml == null) return { name: fallbackName, description: "" };
+
+	let data: Record<string, unknown>;
+	try {
+		const parsed = parseYaml(yaml);
+		data = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+	} catch {
+		data = parseLooseFrontmatter(yaml);
+	}
+
+	const result: SkillFrontmatter = {
+		name: toText(data.name) ?? fallbackName,
+		// One line: a block scalar (`description: |`) keeps its newlines, which break list rows and templates
+		description: toText(data.description)?.replace(/\s+/g, " ").trim() ?? "",
+	};
+
+	const license = toText(data.license);
+	if (license) result.license = license;
+	const compatibility = toText(data.compatibility);
+	if (compatibility) result.compatibility = compatibility;
+	const allowedTools = toList(data["allowed-tools"], /\s+/);
+	if (allowedTools) result.allowedTools = allowedTools;
+	const metadata = toStringMap(data.metadata);
+	if (metadata) result.metadata = metadata;
+	const tags = toList(data.tags, /[,\s]+/);
+	if (tags) result.tags = tags;
+	const aliases = toList(data.aliases, /[,\s]+/);
+	if (aliases) result.aliases = aliases;
+	const namespace = normalizeNamespace(toText(data.namespace));
+	if (namespace) result.namespace = namespace;
+
+	return result;
 }
 
 export function getSkillContent(skill: Skill): string {
-	const raw = fs.readFileSync(skill.filePath, "utf-8");
-	if (!raw.startsWith("---")) return raw;
-	const endIndex = raw.indexOf("\n---", 3);
-	if (endIndex === -1) return raw;
-	return raw.slice(endIndex + 4).trim();
+	return splitFrontmatter(fs.readFileSync(skill.filePath, "utf-8")).body;
+}
+
+/** SKILL.md split into its raw frontmatter YAML (null if none) and body */
+export function getSkillSource(skill: Skill): { frontmatter: string | null; body: string } {
+	const { yaml, body } = splitFrontmatter(fs.readFileSync(skill.filePath, "utf-8"));
+	return { frontmatter: yaml, body };
+}
+
+/** Size of SKILL.md in bytes */
+export function getSkillSize(skill: Skill): number {
+	return fs.statSync(skill.filePath).size;
 }
 
 /**
@@ -38,10 +130,12 @@ export function getSkillContent(skill: Skill): string {
  *
  * Strategy:
  * 1. If the skill path is a symlink, resolve and use the parent of the target dir
- * 2. If the skill is nested (e.g., .../marketing/ad-creative/SKILL.md), use grandparent
- * 3. Fall back to "other"
+ * 2. If the skill sits more than one level below the scanned root, every folder in
+ *    between is a namespace level (.../infra/aws/s3-sync/SKILL.md → infra/aws)
+ * 3. If the skill is nested (e.g., .../marketing/ad-creative/SKILL.md), use grandparent
+ * 4. Fall back to "other"
  */
-export function deriveNamespace(skillDir: string, symlinkSource?: string): string {
+export function deriveNamespace(skillDir: string, symlinkSource?: string, root?: string): string {
 	// If we have a symlink source, resolve the target and get its parent
 	if (symlinkSource) {
 		try {
@@ -57,6 +151,14 @@ export function deriveNamespace(skillDir: string, symlinkSource?: string): strin
 		}
 	}
 
+	// Nested namespaces: skill is at <root>/infra/aws/skill-name/SKILL.md
+	if (root) {
+		const levels = path.relative(root, path.dirname(skillDir)).split(path.sep);
+		if (levels.length > 1 && !levels.some(level => level === ".." || level === "")) {
+			return levels.join("/");
+		}
+	}
+
 	// Try the directory hierarchy: skill is at .../namespace/skill-name/SKILL.md
 	const parentName = path.basename(path.dirname(skillDir));
 	if (parentName && parentName !== "skills" && parentName !== "agent") {
@@ -66,84 +168,159 @@ export function deriveNamespace(skillDir: string, symlinkSource?: string): strin
 	return "other";
 }
 
-function scanSkillDir(
-	dir: string,
-	recursive: boolean,
-	source: "home" | "local",
-	skillsByName: Map<string, Skill>,
-	visited?: Set<string>
-): void {
-	if (!fs.existsSync(dir)) return;
+/** Everything a scan threads through its recursion */
+interface ScanContext {
+	config: SkillDirConfig;
+	reader: SkillFsReader;
+	skillsByKey: Map<string, Skill>;
+	diagnostics: SkillDiagnostic[];
+	seen: Set<string>;
+}
+
+/** Uncached reader — every call hits the filesystem */
+export const directReader: SkillFsReader = {
+	readDir(dir) {
+		return fs.readdirSync(dir, { withFileTypes: true }).map(entry => ({
+			name: entry.name,
+			isDirectory: entry.isDirectory(),
+			isSymlink: entry.isSymbolicLink(),
+		}));
+	},
+	readSkillFile(filePath) {
+		const content = fs.readFileSync(filePath, "utf-8");
+		return {
+			frontmatter: parseFrontmatter(content, path.basename(path.dirname(filePath))),
+			tokens: estimateTokens(splitFrontmatter(content).body),
+		};
+	},
+};
 
-	const seen = visited ?? new Set<string>();
+function scanSkillDir(dir: string, ctx: ScanContext, listing?: DirEntryInfo[]): void {
 	let realDir: string;
 	try { realDir = fs.realpathSync(dir); } catch { realDir = dir; }
-	if (seen.has(realDir)) return;
-	seen.add(realDir);
+	if (ctx.seen.has(realDir)) return;
+	ctx.seen.add(realDir);
 
+	let entries: DirEntryInfo[];
 	try {
-		const entries = fs.readdirSync(dir, { withFileTypes: true });
-		for (const entry of entries) {
-			if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
-
-			const entryPath = path.join(dir, entry.name);
-			let isDirectory = entry.isDirectory();
-			let isFile = entry.isFile();
-			const isSymlink = entry.isSymbolicLink();
-
-			if (isSymlink) {
-				try {
-					const stats = fs.statSync(entryPath);
-					isDirectory = stats.isDirectory();
-					isFile = stats.isFile();
-				} catch { continue; }
-			}
+		entries = listing ?? ctx.reader.readDir(dir);
+	} catch (err) {
+		ctx.diagnostics.push({ kind: "unreadable-dir", path: dir, message: `Cannot read directory: ${errorMessage(err)}` });
+		return;
+	}
+
+	for (const entry of entries) {
+		if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+
+		const entryPath = path.join(dir, entry.name);
+		let isDirectory = entry.isDirectory;
 
-			if (isDirectory) {
-				// Check for SKILL.md inside
-				const skillFile = path.join(entryPath, "SKILL.md");
-				if (fs.existsSync(skillFile)) {
-					loadSkillFile(skillFile, source, skillsByName, isSymlink ? entryPath : undefined);
-				} else if (recursive) {
-					scanSkillDir(entryPath, true, source, skillsByName, seen);
-				}
+		if (entry.isSymlink) {
+			try {
+				isDirectory = fs.statSync(entryPath).isDirectory();
+			} catch (err) {
+				ctx.diagnostics.push({ kind: "broken-symlink", path: entryPath, message: `Broken symlink: ${errorMessage(err)}` });
+				continue;
 			}
 		}
-	} catch { /* skip inaccessible dirs */ }
+
+		if (!isDirectory) continue;
+
+		let children: DirEntryInfo[];
+		try {
+			children = ctx.reader.readDir(entryPath);
+		} catch (err) {
+			ctx.diagnostics.push({ kind: "unreadable-dir", path: entryPath, message: `Cannot read directory: ${errorMessage(err)}` });
+			continue;
+		}
+
+		// Check for SKILL.md inside
+		if (children.some(child => child.name === "SKILL.md" && !child.isDirectory)) {
+			loadSkillFile(path.join(entryPath, "SKILL.md"), ctx, entry.isSymlink ? entryPath : undefined);
+		} else if (ctx.config.recursive) {
+			scanSkillDir(entryPath, ctx, children);
+		}
+	}
 }
 
-function loadSkillFile(filePath: string, source: "home" | "local", skillsByName: Map<string, Skill>, symlinkSource?: string): void {
+function errorMessage(err: unknown): string {
+	return (err as NodeJS.ErrnoException)?.code ?? (err as Error)?.message ?? String(err);
+}
+
+function sameFile(a: string, b: string): boolean {
 	try {
-		const content = fs.readFileSync(filePath, "utf-8");
-		const skillDir = path.dirname(filePath);
-		const parentDirName = path.basename(skillDir);
-		const { name, description } = parseFrontmatter(content, parentDirName);
+		return fs.realpathSync(a) === fs.realpathSync(b);
+	} catch {
+		return a === b;
+	}
+}
+
+function loadSkillFile(filePath: string, ctx: ScanContext, symlinkSource?: string): void {
+	let file: SkillFile;
+	try {
+		file = ctx.reader.readSkillFile(filePath);
+	} catch (err) {
+		ctx.diagnostics.push({ kind: "unreadable-file", path: filePath, message: `Cannot read SKILL.md: ${errorMessage(err)}` });
+		return;
+	}
 
-		if (!description || skillsByName.has(name)) return;
+	const skillDir = path.dirname(filePath);
+	const { name, description, namespace: declaredNamespace, ...metadata } = file.frontmatter;
 
-		const namespace = deriveNamespace(skillDir, symlinkSource);
+	if (!description) {
+		ctx.diagnostics.push({ kind: "missing-description", path: filePath, name, message: `Skill "${name}" has no description in its frontmatter` });
+		return;
+	}
+
+	// A namespace forced by the dir config wins over the skill's own, which wins over the path
+	const namespace = ctx.config.namespace ?? declaredNamespace ?? deriveNamespace(skillDir, symlinkSource, ctx.config.dir);
+	const key = skillKey({ name, namespace });
 
-		skillsByName.set(name, { name, namespace, description, filePath, source });
-	} catch { /* skip invalid */ }
+	// Keyed by namespace:name — the same name in another namespace is a separate skill,
+	// but the first (trusted) skill under a qualified name can't be replaced
+	const existing = ctx.skillsByKey.get(key);
+	if (existing) {
+		// The same skill reached twice (e.g. symlinked into another skills dir) isn't a conflict
+		if (!sameFile(existing.filePath, filePath)) {
+			ctx.diagnostics.push({
+				kind: "shadowed",
+				path: filePath,
+				name: key,
+				shadowedBy: existing.filePath,
+				message: `Skill "${key}" is shadowed by ${existing.source} skill at ${existing.filePath}`,
+			});
+		}
+		return;
+	}
+
+	ctx.skillsByKey.set(key, { name, namespace, description, filePath, source: ctx.config.source, tokens: file.tokens, ...metadata });
 }
 
-export function loadSkills(): Skill[] {
-	const skillsByName = new Map<string, Skill>();
+/**
+ * Scan skill directories in precedence order, collecting diagnostics for
+ * anything skipped. Defaults plus any dirs from ~/.pi-skill-picker/config.json
+ * and .pi/skill-picker.json (see config.ts). Pass a caching reader (see
+ * skill-index.ts) to avoid re-reading unchanged dirs and files.
+ */
+export function loadSkillsWithDiagnostics(dirs?: SkillDirConfig[], reader: SkillFsReader = directReader): SkillLoadResult {
+	const skillsByKey = new Map<string, Skill>();
+	const diagnostics: SkillDiagnostic[] = [];
 
 	// Home dirs first (trusted) — dedup means home skills can't be shadowed by repo-local ones
-	const dirs: SkillDirConfig[] = [
-		{ dir: path.join(os.homedir(), ".codex", "skills"), recursive: true, source: "home" },
-		{ dir: path.join(os.homedir(), ".claude", "skills"), recursive: false, source: "home" },
-		{ dir: path.join(os.homedir(), ".pi", "agent", "skills"), recursive: true, source: "home" },
-		{ dir: path.join(os.homedir(), ".pi", "skills"), recursive: true, source: "home" },
-		// CWD dirs last — repo-local skills can't override home skills
-		{ dir: path.join(process.cwd(), ".claude", "skills"), recursive: false, source: "local" },
-		{ dir: path.join(process.cwd(), ".pi", "skills"), recursive: true, source: "local" },
-	];
-
-	for (const { dir, recursive, source } of dirs) {
-		scanSkillDir(dir, recursive, source, skillsByName);
+	for (const config of dirs ?? getSkillDirs(process.cwd(), diagnostics)) {
+		if (!fs.existsSync(config.dir)) {
+			// Missing built-in dirs are normal; a configured one is probably a typo
+			if (!config.id) {
+				diagnostics.push({ kind: "missing-dir", path: config.dir, message: "Configured skill directory does not exist" });
+			}
+			continue;
+		}
+		scanSkillDir(config.dir, { config, reader, skillsByKey, diagnostics, seen: new Set() });
 	}
 
-	return Array.from(skillsByName.values());
+	return { skills: Array.from(skillsByKey.values()), diagnostics };
+}
+
+export function loadSkills(dirs?: SkillDirConfig[]): Skill[] {
+	return loadSkillsWithDiagnostics(dirs).skills;
 }
@@ -9,36 +9,99 @@
  *   - Type "namespace:skill" to narrow further (e.g. "marketing:ad")
  *   - Or just type a skill name to fuzzy-match across all groups
  *
- * When a skill is selected, its content is injected alongside the next message.
+ * Selected skills are queued (space toggles several at once) and their content
+ * is injected alongside the next message, in queue order. Pinned skills
+ * (Ctrl+P in the palette, /skill pin) are injected on every message.
+ * Mentioning a skill in the prompt ($infra:terraform, @skill:terraform)
+ * queues it for that prompt. A prompt sent with nothing queued gets
+ * suggestions for skills it seems to need. The agent can list and load
+ * skills itself through the list_skills and load_skill tools.
  */
 
+import * as fs from "node:fs";
+import * as path from "node:path";
 import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
 import { Text } from "@mariozechner/pi-tui";
-import type { Skill, PaletteState } from "./types";
-import { loadSkills, getSkillContent } from "./skill-loader";
-import { filterSkills } from "./fuzzy";
-import { loadUsageFromDisk, recordUsage } from "./usage";
-import { SkillPaletteComponent } from "./component";
+import { Type } from "@sinclair/typebox";
+import type { Skill, PaletteState, PaletteResult, PickerConfig, SuggestConfig } from "./types";
+import { getSkillSource } from "./skill-loader";
+import { listSkillResources, withResources } from "./resources";
+import { findMentions, resolveMentions, stripMentions } from "./mentions";
+import { SkillMentionEditor } from "./mention-editor";
+import { renderTemplate, resolveTemplate, templateVars, usesPlaceholder } from "./template";
+import { estimateTokens, fitToBudget, formatTokens, type FittedBody } from "./tokens";
+import { suggestSkills } from "./suggest";
+import { formatSkillList, selectSkills } from "./agent-tools";
+import { getSkillDirs, loadConfig } from "./config";
+import { SkillIndex, reconcileSkills } from "./skill-index";
+import { buildDoctorReport } from "./doctor";
+import { buildStatsReport, buildUsageStats, statsToCsv, statsToJson } from "./stats";
+import { ambiguityMessage, findSkills, lookupSkill, sameSkill, skillKey } from "./lib/skill-key";
+import { filterSkills, isWithinNamespace } from "./fuzzy";
+import { findProjectRoot, loadUsageFile, loadUsageFromDisk, flushUnsavedUsage, recordUsage } from "./usage";
+import { loadPrefs, rememberQuery, savePrefs } from "./prefs";
+import { SkillPaletteComponent, ReportComponent } from "./component";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // Helpers
 // ═══════════════════════════════════════════════════════════════════════════
 
-function escapeXml(s: string): string {
-	return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
-}
-
 function sanitize(s: string): string {
 	return s.replace(/[\x00-\x1f]/g, "");
 }
 
+/**
+ * A skill as the model gets it: framed by the template, with its resources
+ * and cut to the `remaining` token budget as configured. Throws if SKILL.md
+ * can't be read.
+ */
+function renderSkill(
+	skill: Skill,
+	config: PickerConfig,
+	template: string,
+	remaining: number
+): { block: string; tokens: number; shrunk: FittedBody["shrunk"] } {
+	const source = getSkillSource(skill);
+	// Listing the skill's files costs a directory walk — only when something shows them
+	const listing = config.resources.manifest || usesPlaceholder(template, "resources")
+		? listSkillResources(skill, config.resources.ignore)
+		: { resources: [], truncated: false };
+	const fitted = fitToBudget(
+		withResources(skill, source.body, config.resources, listing),
+		Math.max(0, remaining),
+		config.tokens.overflow,
+		skill.filePath
+	);
+	return {
+		block: renderTemplate(template, templateVars(skill, { ...source, body: fitted.body }, listing.resources.map(r => r.path))),
+		tokens: estimateTokens(fitted.body),
+		shrunk: fitted.shrunk,
+	};
+}
+
+// Completions run on every keystroke — reuse a scan this recent without touching the disk
+const COMPLETION_MAX_AGE_MS = 2000;
+
+const SUBCOMMANDS = [
+	{ name: "pin", description: "inject a skill on every message" },
+	{ name: "unpin", description: "stop injecting pinned skills" },
+	{ name: "doctor", description: "report skill loading problems" },
+	{ name: "stats", description: "usage per skill and namespace; stats json|csv [file] exports" },
+];
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Module state
 // ═══════════════════════════════════════════════════════════════════════════
 
 const state: PaletteState = {
-	queuedSkill: null,
+	queuedSkills: [],
+	pinnedSkills: [],
 	recentSkills: [],
+	projectRecentSkills: [],
+	unsavedUsage: [],
+	projectRoot: null,
+	collapsedGroups: [],
+	queryHistory: [],
 };
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -46,8 +109,42 @@ const state: PaletteState = {
 // ═══════════════════════════════════════════════════════════════════════════
 
 export default function skillPalette(pi: ExtensionAPI): void {
-	// Load usage stats from disk on startup
-	state.recentSkills = loadUsageFromDisk();
+	// Load usage stats from disk on startup — global and for this project
+	state.projectRoot = findProjectRoot(process.cwd());
+	const usage = loadUsageFromDisk(state.projectRoot);
+	state.recentSkills = usage.global;
+	state.projectRecentSkills = usage.project;
+	const prefs = loadPrefs();
+	state.collapsedGroups = prefs.collapsed;
+	state.queryHistory = prefs.history;
+
+	// One index for the palette, /skill and completions — rescans only what changed
+	const index = new SkillIndex();
+	index.setWatching(loadConfig().watch);
+	pi.on("session_shutdown", async () => {
+		index.dispose();
+		// Uses the usage lock kept out have no later write to go with — save them now
+		await flushUnsavedUsage(state);
+	});
+
+	// Last context seen — lets reloads triggered by the watchers reach the UI
+	let uiCtx: ExtensionContext | null = null;
+	pi.on("session_start", (_event, ctx) => {
+		uiCtx = ctx;
+		// Complete $skill / @skill: mentions in the prompt editor, as /skill completes its arguments.
+		// Only when asked for: pi has one editor slot, and another extension may be using it.
+		const config = loadConfig();
+		if (ctx.hasUI && config.mentionEditor && config.mentions !== "off") {
+			ctx.ui.setEditorComponent((tui, theme, keybindings) =>
+				new SkillMentionEditor(tui, theme, keybindings, prefix => getArgumentCompletions(prefix, false))
+			);
+		}
+	});
+
+	// A SKILL.md changed on disk — refresh picked skills, drop deleted ones
+	index.onChange(({ skills }) => {
+		if (reconcilePicked(skills) && uiCtx) updateQueueUi(uiCtx);
+	});
 
 	// Custom renderer for skill-context messages
 	pi.registerMessageRenderer("skill-context", (message, _options, theme) => {
@@ -57,29 +154,52 @@ export default function skillPalette(pi: ExtensionAPI): void {
 				? (message.content as any[]).map((c: any) => c.type === "text" ? c.text || "" : "").join("")
 				: "";
 
-		const nameMatch = rawContent.match(/<skill name="([^"]+)">/);
-		const skillName = nameMatch?.[1] || "Unknown Skill";
+		// Names travel in details whatever the template; older sessions only have the <skill> tags
+		const details = message.details as { skills?: string[] } | undefined;
+		const skillNames = Array.isArray(details?.skills)
+			? details.skills.map(sanitize)
+			: [...rawContent.matchAll(/<skill name="([^"]+)">/g)].map(m => m[1]);
+		const label = skillNames.length > 1 ? "Skills: " : "Skill: ";
 
 		const header = theme.fg("accent", "◆ ") +
-			theme.fg("customMessageLabel", theme.bold("Skill: ")) +
-			theme.fg("accent", skillName);
+			theme.fg("customMessageLabel", theme.bold(label)) +
+			theme.fg("accent", skillNames.length > 0 ? skillNames.join(", ") : "Unknown Skill");
 
 		return new Text(header, 0, 0);
 	});
 
-	// Argument completions for /skill — suggest namespaces and namespace:skill combos
-	function getArgumentCompletions(prefix: string) {
-		const skills = loadSkills();
+	// Argument completions for /skill — suggest namespaces and namespace:skill combos.
+	// Several skills can be given, so only the last word is completed.
+	// Prompt mentions reuse it for a single reference, without subcommands.
+	function getArgumentCompletions(argumentText: string, withSubcommands = true) {
+		const lastSpace = argumentText.lastIndexOf(" ");
+		const head = argumentText.slice(0, lastSpace + 1);
+		const prefix = argumentText.slice(lastSpace + 1);
+		// `/skill stats <format>` — export formats, no skills
+		if (head === "stats ") {
+			const formats = ["json", "csv"].filter(f => f.startsWith(prefix));
+			return formats.length > 0 ? formats.map(f => ({ value: `stats ${f} `, label: `${f} — export to skill-stats.${f}` })) : null;
+		}
+		if (/^stats\s/.test(argumentText)) return null;
+		// `/skill unpin <name>` only offers what is currently pinned
+		const skills = /^unpin\s/.test(argumentText) ? state.pinnedSkills : index.get(COMPLETION_MAX_AGE_MS).skills;
 		const namespaces = [...new Set(skills.map(s => s.namespace))].sort();
 
 		const items: { value: string; label: string }[] = [];
 
+		// Subcommands, only as the first word
+		if (withSubcommands && !head && prefix) {
+			for (const sub of SUBCOMMANDS) {
+				if (sub.name.startsWith(prefix)) items.push({ value: `${sub.name} `, label: `${sub.name} — ${sub.description}` });
+			}
+		}
+
 		if (!prefix || !prefix.includes(":")) {
 			// Suggest namespaces
 			for (const ns of namespaces) {
 				if (!prefix || ns.startsWith(prefix.toLowerCase())) {
 					const count = skills.filter(s => s.namespace === ns).length;
-					items.push({ value: `${ns}:`, label: `${ns}: (${count} skills)` });
+					items.push({ value: `${head}${ns}:`, label: `${ns}: (${count} skills)` });
 				}
 			}
 		}
@@ -92,53 +212,247 @@ export default function skillPalette(pi: ExtensionAPI): void {
 		for (const skill of skills) {
 			if (nsPrefix && !skill.namespace.startsWith(nsPrefix.toLowerCase())) continue;
 			if (namePrefix && !skill.name.startsWith(namePrefix.toLowerCase())) continue;
+			// Label where a name is reused across namespaces, so the right one gets picked
+			const isAmbiguous = skills.some(s => s.name === skill.name && !sameSkill(s, skill));
 			items.push({
-				value: `${skill.namespace}:${skill.name}`,
-				label: `${skill.namespace}:${skill.name}`,
+				value: `${head}${skillKey(skill)}`,
+				label: isAmbiguous ? `${skillKey(skill)} [${skill.source}]` : skillKey(skill),
 			});
 		}
 
 		return items.length > 0 ? items.slice(0, 20) : null;
 	}
 
-	// Shared: queue a skill (usage recorded on actual injection)
-	function queueSkill(skill: Skill, ctx: ExtensionContext) {
-		state.queuedSkill = skill;
-		const safeName = sanitize(`${skill.namespace}:${skill.name}`);
-		ctx.ui.setStatus("skill", `◆ ${safeName}`);
+	// Shared: reflect pinned and queued skills in the status bar and widget
+	function updateQueueUi(ctx: ExtensionContext) {
+		if (state.queuedSkills.length === 0 && state.pinnedSkills.length === 0) {
+			ctx.ui.setStatus("skill", undefined);
+			ctx.ui.setWidget("skill", undefined);
+			return;
+		}
+
+		const pinnedNames = state.pinnedSkills.map(s => sanitize(skillKey(s)));
+		const queuedNames = state.queuedSkills.map(s => sanitize(skillKey(s)));
+
+		const statusParts: string[] = [];
+		if (queuedNames.length > 0) {
+			statusParts.push(`◆ ${queuedNames[0]}${queuedNames.length > 1 ? ` +${queuedNames.length - 1}` : ""}`);
+		}
+		if (pinnedNames.length > 0) statusParts.push(`⚑ ${pinnedNames.length} pinned`);
+		ctx.ui.setStatus("skill", statusParts.join(" · "));
+
 		ctx.ui.setWidget("skill", [
-			`\x1b[2m◆ Skill: \x1b[0m\x1b[36m${safeName}\x1b[0m\x1b[2m — next message\x1b[0m`
+			...pinnedNames.map(name =>
+				`\x1b[2m⚑ Pinned: \x1b[0m\x1b[33m${name}\x1b[0m\x1b[2m — every message\x1b[0m`
+			),
+			...queuedNames.map((name, i) =>
+				`\x1b[2m◆ Skill ${i + 1}/${queuedNames.length}: \x1b[0m\x1b[36m${name}\x1b[0m\x1b[2m — next message\x1b[0m`
+			),
 		]);
-		ctx.ui.notify(`Skill queued: ${safeName}`, "info");
+	}
+
+	// Shared: queue skills (usage recorded on actual injection)
+	function queueSkills(skills: Skill[], ctx: ExtensionContext) {
+		const added = skills.filter(skill =>
+			!state.queuedSkills.some(q => sameSkill(q, skill)) &&
+			!state.pinnedSkills.some(p => sameSkill(p, skill))
+		);
+		state.queuedSkills.push(...added);
+		updateQueueUi(ctx);
+		clearSuggestions(ctx);
+		if (added.length > 0) {
+			ctx.ui.notify(`Skill${added.length > 1 ? "s" : ""} queued: ${added.map(s => sanitize(skillKey(s))).join(", ")}`, "info");
+			warnOverBudget(ctx);
+		}
+	}
+
+	// Shared: warn when pinned + queued skills add up to more than the token budget,
+	// measured as injected — resources included — so this agrees with what gets cut
+	function warnOverBudget(ctx: ExtensionContext) {
+		const config = loadConfig();
+		const { budget, overflow } = config.tokens;
+		if (budget === null) return;
+		const template = resolveTemplate(config.template);
+		let total = 0;
+		for (const skill of [...state.pinnedSkills, ...state.queuedSkills]) {
+			try {
+				total += renderSkill(skill, config, template, Infinity).tokens;
+			} catch {
+				// Unreadable — injecting it reports the failure
+			}
+		}
+		if (total <= budget) return;
+		const outcome = overflow === "truncate"
+			? "the last skills will be truncated"
+			: overflow === "outline"
+				? "the last skills will be cut to their headings"
+				: "consider unqueuing some";
+		ctx.ui.notify(`Skills for the next message are ~${formatTokens(total)} tokens, over the ${formatTokens(budget)} budget — ${outcome}`, "warning");
+	}
+
+	// Skills the suggestion widget offers — the palette lists them first until they're dealt with
+	let offeredSkills: Skill[] = [];
+
+	// Shared: rank skills against a prompt nothing was queued for. Confident matches are
+	// returned to inject when auto-injection is on; the rest are offered in a widget.
+	// Only the user's own skills are ever injected unasked — a repo's are offered instead.
+	function suggestForPrompt(prompt: string, config: SuggestConfig, ctx: ExtensionContext): Skill[] {
+		clearSuggestions(ctx);
+		if (!config.enabled) return [];
+		const suggestions = suggestSkills(index.get().skills, prompt, config.threshold, state.pinnedSkills);
+		const auto = suggestions.filter(s => config.autoInject !== null && s.skill.source === "home" && s.confidence >= config.autoInject);
+		const offered = suggestions.filter(s => !auto.includes(s));
+
+		if (auto.length > 0) {
+			const names = auto.map(s => `${sanitize(skillKey(s.skill))} (${s.matched.map(sanitize).join(", ")})`).join(", ");
+			ctx.ui?.notify(`Skill${auto.length > 1 ? "s" : ""} auto-injected: ${names}`, "info");
+		}
+		if (offered.length > 0 && ctx.ui) {
+			offeredSkills = offered.map(s => s.skill);
+			const names = offered.map(s => `\x1b[36m${sanitize(skillKey(s.skill))}\x1b[0m`).join("\x1b[2m, \x1b[0m");
+			ctx.ui.setWidget("skill-suggest", [`\x1b[2m◆ try \x1b[0m${names}\x1b[2m? Alt+K\x1b[0m`]);
+		}
+		return auto.map(s => s.skill);
+	}
+
+	function clearSuggestions(ctx: ExtensionContext) {
+		offeredSkills = [];
+		ctx.ui?.setWidget("skill-suggest", undefined);
+	}
+
+	// Shared: count one use of a skill. An unreadable usage.json is kept aside, not overwritten — say where
+	function countUse(skill: Skill, ctx: ExtensionContext) {
+		void recordUsage(state, skill).then(backup => {
+			if (backup) ctx.ui?.notify(`Couldn't read skill usage history — kept it as ${backup} and started a new one`, "warning");
+		});
+	}
+
+	// Shared: pin/unpin skills for the rest of the session
+	function pinSkills(skills: Skill[], ctx: ExtensionContext) {
+		const added = skills.filter(skill => !state.pinnedSkills.some(p => sameSkill(p, skill)));
+		state.pinnedSkills.push(...added);
+		// A pinned skill is injected anyway, so drop it from the one-shot queue
+		state.queuedSkills = state.queuedSkills.filter(q => !added.some(p => sameSkill(p, q)));
+		// Pinning is the explicit choice, so count it once here rather than on every turn
+		for (const skill of added) countUse(skill, ctx);
+		updateQueueUi(ctx);
+		if (added.length > 0) {
+			ctx.ui.notify(`Skill${added.length > 1 ? "s" : ""} pinned: ${added.map(s => sanitize(skillKey(s))).join(", ")}`, "info");
+			warnOverBudget(ctx);
+		}
+	}
+
+	function unpinSkills(skills: Skill[], ctx: ExtensionContext) {
+		const removed = state.pinnedSkills.filter(p => skills.some(s => sameSkill(s, p)));
+		state.pinnedSkills = state.pinnedSkills.filter(p => !removed.includes(p));
+		updateQueueUi(ctx);
+		if (removed.length > 0) {
+			ctx.ui.notify(`Skill${removed.length > 1 ? "s" : ""} unpinned: ${removed.map(s => sanitize(skillKey(s))).join(", ")}`, "info");
+		}
+	}
+
+	// Shared: re-resolve queued/pinned skills after a rescan. Returns true if anything changed.
+	function reconcilePicked(skills: Skill[]): boolean {
+		const queued = reconcileSkills(state.queuedSkills, skills);
+		const pinned = reconcileSkills(state.pinnedSkills, skills);
+		const changed = queued.removed.length + pinned.removed.length > 0 ||
+			queued.kept.some((s, i) => s !== state.queuedSkills[i]) ||
+			pinned.kept.some((s, i) => s !== state.pinnedSkills[i]);
+		state.queuedSkills = queued.kept;
+		state.pinnedSkills = pinned.kept;
+
+		const removed = [...pinned.removed, ...queued.removed];
+		if (removed.length > 0) {
+			uiCtx?.ui.notify(`Skill${removed.length > 1 ? "s" : ""} removed from disk: ${removed.map(s => sanitize(skillKey(s))).join(", ")}`, "warning");
+		}
+		return changed;
+	}
+
+	// Shared: resolve skill arguments, warning about unknown names
+	function resolveSkillArgs(skills: Skill[], names: string[], ctx: ExtensionContext): Skill[] {
+		const matches: Skill[] = [];
+		const unknown: string[] = [];
+		for (const name of names) {
+			const { skill, ambiguity } = lookupSkill(skills, name);
+			if (skill) matches.push(skill);
+			else if (ambiguity) ctx.ui.notify(sanitize(ambiguity), "warning");
+			else unknown.push(name);
+		}
+		if (matches.length > 0 && unknown.length > 0) {
+			ctx.ui.notify(`Unknown skill${unknown.length > 1 ? "s" : ""}: ${unknown.map(sanitize).join(", ")}`, "warning");
+		}
+		return matches;
 	}
 
 	// Shared palette logic
 	async function openPalette(ctx: ExtensionContext) {
-		const skills = loadSkills();
+		uiCtx = ctx;
+		const { skills, diagnostics } = index.get();
 
 		if (skills.length === 0) {
 			ctx.ui.notify("No skills found", "warning");
 			return;
 		}
 
-		const result = await ctx.ui.custom<{ skill: Skill | null; action: "select" | "unqueue" | "cancel" }>(
-			(_tui, theme, _kb, done) => new SkillPaletteComponent(
-				skills,
-				state.queuedSkill,
-				state.recentSkills,
-				theme,
-				(skill, action) => done({ skill, action })
-			),
+		// The palette is where a suggestion is followed up, or ignored — either way it's done
+		const suggested = offeredSkills;
+		clearSuggestions(ctx);
+		let unsubscribe = () => {};
+		const { action: result, query, collapsedGroups } = await ctx.ui.custom<PaletteResult>(
+			(tui, theme, _kb, done) => {
+				const component = new SkillPaletteComponent({
+					skills,
+					queued: state.queuedSkills,
+					usage: { global: state.recentSkills, project: state.projectRecentSkills },
+					pinned: state.pinnedSkills,
+					warningCount: diagnostics.length,
+					collapsedGroups: state.collapsedGroups,
+					queryHistory: state.queryHistory,
+					suggested,
+					theme,
+					done,
+				});
+				// Live reload while the palette is open
+				unsubscribe = index.onChange(reloaded => {
+					component.updateSkills(reloaded.skills, reloaded.diagnostics.length);
+					tui.requestRender();
+				});
+				return component;
+			},
 			{ overlay: true, overlayOptions: { anchor: "center" as any, width: 78 } }
 		);
+		unsubscribe();
 
-		if (result.action === "select" && result.skill) {
-			queueSkill(result.skill, ctx);
-		} else if (result.action === "unqueue") {
-			state.queuedSkill = null;
-			ctx.ui.setStatus("skill", undefined);
-			ctx.ui.setWidget("skill", undefined);
-			ctx.ui.notify("Skill unqueued", "info");
+		// Remember folded groups across sessions whatever the outcome; queries only when they led somewhere
+		const prefs = {
+			collapsed: collapsedGroups,
+			history: result.type === "cancel" ? state.queryHistory : rememberQuery(state.queryHistory, query),
+		};
+		if (JSON.stringify(prefs) !== JSON.stringify({ collapsed: state.collapsedGroups, history: state.queryHistory })) {
+			state.collapsedGroups = prefs.collapsed;
+			state.queryHistory = prefs.history;
+			savePrefs(prefs);
+		}
+
+		if (result.type === "cancel") return;
+
+		state.queuedSkills = result.queued;
+		if (result.type === "pin") {
+			pinSkills([result.skill], ctx);
+			return;
+		}
+		if (result.type === "unpin") {
+			unpinSkills([result.skill], ctx);
+			return;
+		}
+
+		updateQueueUi(ctx);
+		if (result.queued.length === 0) {
+			ctx.ui.notify("Skills unqueued", "info");
+		} else {
+			const names = result.queued.map(s => sanitize(skillKey(s))).join(", ");
+			ctx.ui.notify(`Skill${result.queued.length > 1 ? "s" : ""} queued: ${names}`, "info");
+			warnOverBudget(ctx);
 		}
 	}
 
@@ -150,15 +464,77 @@ export default function skillPalette(pi: ExtensionAPI): void {
 
 	// /skill command
 	pi.registerCommand("skill", {
-		description: "Open namespace-aware skill palette (or Alt+K)",
+		description: "Open namespace-aware skill palette (or Alt+K); pin/unpin <skill> keeps skills active; doctor reports load problems; stats shows usage",
 		getArgumentCompletions,
 		handler: async (args: string, ctx: ExtensionContext) => {
-			// If called with a direct argument like /skill marketing:ad-creative, skip palette
-			if (args.trim()) {
-				const skills = loadSkills();
-				const match = skills.find(s => `${s.namespace}:${s.name}` === args.trim() || s.name === args.trim());
-				if (match) {
-					queueSkill(match, ctx);
+			uiCtx = ctx;
+			const [subcommand, ...rest] = args.trim().split(/\s+/).filter(Boolean);
+
+			// /skill doctor — explain why skills are missing
+			if (subcommand === "doctor") {
+				const result = index.get(0);
+				const rows = buildDoctorReport(result, getSkillDirs());
+				await ctx.ui.custom<void>(
+					(_tui, theme, _kb, done) => new ReportComponent("Skill doctor", rows, theme, () => done()),
+					{ overlay: true, overlayOptions: { anchor: "center" as any, width: 98 } }
+				);
+				return;
+			}
+
+			// /skill stats [json|csv [file]] — usage table, or export for dashboards
+			if (subcommand === "stats") {
+				const usage = loadUsageFile();
+				if (!usage) {
+					ctx.ui.notify("usage.json was written by a newer version of pi-skill-picker", "warning");
+					return;
+				}
+				const stats = buildUsageStats(index.get().skills, usage);
+				const format = rest[0];
+				if (format === "json" || format === "csv") {
+					// The file is the rest of the line, so paths may contain spaces
+					const target = args.trim().replace(/^stats\s+\S+\s*/, "");
+					const file = path.resolve(target || `skill-stats.${format}`);
+					try {
+						fs.writeFileSync(file, format === "json" ? statsToJson(stats) : statsToCsv(stats));
+						ctx.ui.notify(`Skill stats exported to ${sanitize(file)}`, "info");
+					} catch (err) {
+						const message = err instanceof Error ? err.message : String(err);
+						ctx.ui.notify(`Couldn't write ${sanitize(file)}: ${sanitize(message)}`, "error");
+					}
+					return;
+				}
+				if (format) {
+					ctx.ui.notify("Usage: /skill stats [json|csv [file]]", "warning");
+					return;
+				}
+				const rows = buildStatsReport(stats);
+				await ctx.ui.custom<void>(
+					(_tui, theme, _kb, done) => new ReportComponent("Skill stats", rows, theme, () => done()),
+					{ overlay: true, overlayOptions: { anchor: "center" as any, width: 98 } }
+				);
+				return;
+			}
+
+			// /skill pin <ns:name>... — inject on every message until unpinned
+			if (subcommand === "pin") {
+				const matches = resolveSkillArgs(index.get().skills, rest, ctx);
+				if (matches.length > 0) pinSkills(matches, ctx);
+				else ctx.ui.notify(rest.length > 0 ? `Unknown skill: ${sanitize(rest.join(" "))}` : "Usage: /skill pin <namespace:name>", "warning");
+				return;
+			}
+
+			// /skill unpin [ns:name]... — without arguments unpins everything
+			if (subcommand === "unpin") {
+				if (rest.length === 0) unpinSkills(state.pinnedSkills, ctx);
+				else unpinSkills(resolveSkillArgs(state.pinnedSkills, rest, ctx), ctx);
+				return;
+			}
+
+			// If called with direct arguments like /skill marketing:ad-creative brave-search, skip palette
+			if (subcommand) {
+				const matches = resolveSkillArgs(index.get().skills, [subcommand, ...rest], ctx);
+				if (matches.length > 0) {
+					queueSkills(matches, ctx);
 					return;
 				}
 			}
@@ -167,31 +543,151 @@ export default function skillPalette(pi: ExtensionAPI): void {
 		},
 	});
 
-	// Inject queued skill into next message
-	pi.on("before_agent_start", async (_event, _ctx) => {
-		if (!state.queuedSkill) return {};
+	// Agent tools — the model finds and loads skills itself, under the same rules as /skill:
+	// qualified names, no guessing between namespaces, project skills marked as such
+	if (loadConfig().tools) {
+		pi.registerTool({
+			name: "list_skills",
+			label: "List skills",
+			description: "List skills that can be loaded with load_skill: their namespace:name, description and estimated size. " +
+				"Filter with a fuzzy query and/or a namespace. Check for a skill before starting a task one may cover.",
+			parameters: Type.Object({
+				query: Type.Optional(Type.String({ description: "Fuzzy search over skill names, aliases, tags and descriptions" })),
+				namespace: Type.Optional(Type.String({ description: "Only skills in this namespace, nested ones included (e.g. infra)" })),
+			}),
+			async execute(_toolCallId, params) {
+				const selected = selectSkills(index.get().skills, params, state.recentSkills);
+				return {
+					content: [{ type: "text", text: formatSkillList(selected) }],
+					details: { count: selected.length },
+				};
+			},
+		});
+
+		pi.registerTool({
+			name: "load_skill",
+			label: "Load skill",
+			description: "Load a skill's instructions by namespace:name, as given by list_skills, and follow them for the current task. " +
+				"A bare name works only when no other namespace uses it.",
+			parameters: Type.Object({
+				name: Type.String({ description: "The skill's namespace:name (e.g. infra:terraform)" }),
+			}),
+			async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
+				const name = params.name.trim();
+				const { skill, ambiguity } = lookupSkill(index.get().skills, name);
+				if (ambiguity) throw new Error(ambiguity);
+				if (!skill) throw new Error(`Unknown skill "${name}" — call list_skills to see what is available`);
+
+				const config = loadConfig();
+				const rendered = renderSkill(skill, config, resolveTemplate(config.template), config.tokens.budget ?? Infinity);
+				if (rendered.shrunk) {
+					ctx.ui?.notify(`Over the skill token budget: ${sanitize(skillKey(skill))} (${rendered.shrunk === "outline" ? "headings only" : "truncated"})`, "warning");
+				}
+				// Loaded for the task at hand, like a queued skill — it counts as a use
+				countUse(skill, ctx);
+				return {
+					content: [{ type: "text", text: rendered.block }],
+					details: { skill: skillKey(skill), source: skill.source, tokens: rendered.tokens },
+				};
+			},
+		});
+	}
+
+	// Inline mentions — `use $infra:terraform to …` queues the skill for this very prompt
+	pi.on("input", (event, ctx) => {
+		if (event.source === "extension") return { action: "continue" };
+		const mode = loadConfig().mentions;
+		if (mode === "off") return { action: "continue" };
+		if (findMentions(event.text).length === 0) return { action: "continue" };
+
+		uiCtx = ctx;
+		const skills = index.get().skills;
+		const { skills: resolved, used, ambiguous, unknown } = resolveMentions(
+			event.text,
+			ref => findSkills(skills, ref),
+			ns => skills.some(s => isWithinNamespace(s.namespace, ns))
+		);
+		const problems = [
+			...ambiguous.map(({ ref, found }) => sanitize(ambiguityMessage(ref, found))),
+			...unknown.map(ref => `"${sanitize(ref)}" is not a skill`),
+		];
+
+		if (problems.length > 0) {
+			// Don't send a prompt that silently lacks a skill it asks for — hand it back to fix.
+			// Without an editor (print / RPC mode), or with images the editor can't take back,
+			// the prompt would be lost instead: send it, and only warn.
+			if (ctx.hasUI && !event.images?.length) {
+				ctx.ui.notify(`Not sent: ${problems.join("; ")}. Put a mention in \`backticks\` to send it as text.`, "warning");
+				ctx.ui.setEditorText(event.text);
+				return { action: "handled" };
+			}
+			const warning = `Sent without these skills: ${problems.join("; ")}`;
+			if (ctx.hasUI) ctx.ui.notify(warning, "warning");
+			else process.stderr.write(`pi-skill-picker: ${warning}\n`);
+		}
+
+		// Nothing resolved — plain text, or sent as it is past the warning above
+		if (resolved.length === 0) return { action: "continue" };
+
+		queueSkills(resolved, ctx);
+		// A prompt that was nothing but mentions keeps them rather than going out empty
+		const stripped = mode === "strip" ? stripMentions(event.text, used) : "";
+		return stripped ? { action: "transform", text: stripped } : { action: "continue" };
+	});
+
+	// Inject pinned skills, then queued skills — one <skill> block each, in order
+	pi.on("before_agent_start", async (event, _ctx) => {
+		if (_ctx.ui) uiCtx = _ctx;
+		// Template, resource and suggestion options from the home config only — a repo shouldn't reframe trusted skills
+		const config = loadConfig();
+		// Nothing picked for this prompt — offer skills it looks like it needs
+		const suggested = state.queuedSkills.length === 0 ? suggestForPrompt(event.prompt, config.suggest, _ctx) : [];
+		if (state.queuedSkills.length === 0 && state.pinnedSkills.length === 0 && suggested.length === 0) return {};
+
+		// Don't inject a skill whose file was deleted since it was picked
+		reconcilePicked(index.get().skills);
 
-		const skill = state.queuedSkill;
-		state.queuedSkill = null;
+		const queued = state.queuedSkills.filter(q => !state.pinnedSkills.some(p => sameSkill(p, q)));
+		state.queuedSkills = [];
 
-		_ctx.ui?.setStatus("skill", undefined);
-		_ctx.ui?.setWidget("skill", undefined);
+		if (_ctx.ui) updateQueueUi(_ctx);
 
-		// Record usage only when skill is actually injected
-		recordUsage(state, skill);
+		const template = resolveTemplate(config.template);
+		const blocks: string[] = [];
+		const injected: string[] = [];
+		const shrunk: string[] = [];
+		// Skills are fitted in injection order, so pinned ones keep their room
+		let remaining = config.tokens.budget ?? Infinity;
+		for (const skill of [...state.pinnedSkills, ...suggested, ...queued]) {
+			try {
+				const rendered = renderSkill(skill, config, template, remaining);
+				remaining -= rendered.tokens;
+				if (rendered.shrunk) shrunk.push(`${sanitize(skillKey(skill))} (${rendered.shrunk === "outline" ? "headings only" : "truncated"})`);
+				blocks.push(rendered.block);
+				injected.push(skillKey(skill));
+				// Record usage only when a queued skill is actually injected (pins count once, when pinned;
+				// auto-injected suggestions weren't the user's choice and don't count)
+				if (queued.includes(skill)) countUse(skill, _ctx);
+			} catch {
+				_ctx.ui?.notify(`Failed to load skill: ${skill.name}`, "warning");
+			}
+		}
 
-		try {
-			const content = getSkillContent(skill);
-			return {
-				message: {
-					customType: "skill-context",
-					content: `<skill name="${escapeXml(skill.namespace)}:${escapeXml(skill.name)}">\n${content}\n</skill>`,
-					display: true,
-				},
-			};
-		} catch {
-			_ctx.ui?.notify(`Failed to load skill: ${skill.name}`, "warning");
-			return {};
+		if (shrunk.length > 0) _ctx.ui?.notify(`Over the skill token budget: ${shrunk.join(", ")}`, "warning");
+		// `overflow: "warn"` cuts nothing — the budget just runs out
+		const { budget, overflow } = config.tokens;
+		if (overflow === "warn" && budget !== null && remaining < 0) {
+			_ctx.ui?.notify(`Skills in this message are ~${formatTokens(budget - remaining)} tokens, over the ${formatTokens(budget)} budget`, "warning");
 		}
+		if (blocks.length === 0) return {};
+
+		return {
+			message: {
+				customType: "skill-context",
+				content: blocks.join("\n\n"),
+				display: true,
+				details: { skills: injected },
+			},
+		};
 	});
 }
@@ -0,0 +1,187 @@
+import * as path from "node:path";
+import { truncateToWidth, visibleWidth } from "@mariozechner/pi-tui";
+import type { Skill } from "./types";
+import type { UsageFile } from "./usage";
+import type { ReportRow } from "./screens/report";
+import { skillKey } from "./lib/skill-key";
+import { stripControlChars } from "./lib/render-helpers";
+
+export interface SkillStat {
+	name: string;
+	namespace: string;
+	count: number;
+	/** Timestamp of the last use, null if never used */
+	lastUsed: number | null;
+	/** Project roots the skill was used in */
+	projects: string[];
+	/** False for skills in the usage history that are no longer on disk */
+	installed: boolean;
+}
+
+export interface NamespaceStat {
+	namespace: string;
+	/** Installed skills in the namespace */
+	skills: number;
+	/** How many of them were ever used */
+	used: number;
+	count: number;
+	lastUsed: number | null;
+	/** Project roots any of its skills was used in */
+	projects: string[];
+}
+
+export interface UsageStats {
+	/** Skills used at least once, most used first */
+	skills: SkillStat[];
+	namespaces: NamespaceStat[];
+	/** Installed skills that were never used */
+	neverUsed: SkillStat[];
+}
+
+/**
+ * Join the usage history with the installed skills. Skills used in no project
+ * (e.g. recorded before per-project usage existed) still count globally.
+ */
+export function buildUsageStats(skills: Skill[], usage: UsageFile): UsageStats {
+	const byKey = new Map<string, SkillStat>();
+
+	for (const skill of skills) {
+		byKey.set(skillKey(skill), { name: skill.name, namespace: skill.namespace, count: 0, lastUsed: null, projects: [], installed: true });
+	}
+	for (const entry of usage.history) {
+		const key = skillKey(entry);
+		const stat = byKey.get(key) ?? { name: entry.name, namespace: entry.namespace, count: 0, lastUsed: null, projects: [], installed: false };
+		stat.count = entry.count;
+		stat.lastUsed = entry.timestamp;
+		byKey.set(key, stat);
+	}
+	for (const [root, entries] of Object.entries(usage.projects)) {
+		for (const entry of entries) {
+			byKey.get(skillKey(entry))?.projects.push(root);
+		}
+	}
+
+	const all = [...byKey.values()].sort((a, b) =>
+		b.count - a.count || skillKey(a).localeCompare(skillKey(b))
+	);
+
+	const namespaces = new Map<string, NamespaceStat>();
+	for (const stat of all) {
+		const ns = namespaces.get(stat.namespace) ?? { namespace: stat.namespace, skills: 0, used: 0, count: 0, lastUsed: null, projects: [] };
+		if (stat.installed) ns.skills++;
+		if (stat.count > 0) ns.used++;
+		ns.count += stat.count;
+		if (stat.lastUsed !== null && (ns.lastUsed === null || stat.lastUsed > ns.lastUsed)) ns.lastUsed = stat.lastUsed;
+		for (const root of stat.projects) {
+			if (!ns.projects.includes(root)) ns.projects.push(root);
+		}
+		namespaces.set(stat.namespace, ns);
+	}
+
+	return {
+		skills: all.filter(s => s.count > 0),
+		namespaces: [...namespaces.values()].sort((a, b) => b.count - a.count || a.namespace.localeCompare(b.namespace)),
+		neverUsed: all.filter(s => s.installed && s.count === 0),
+	};
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TUI table
+// ═══════════════════════════════════════════════════════════════════════════
+
+function formatAge(timestamp: number | null, now: number): string {
+	if (timestamp === null) return "never";
+	const minutes = Math.floor((now - timestamp) / 60_000);
+	if (minutes < 1) return "just now";
+	if (minutes < 60) return `${minutes}m ago`;
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) return `${hours}h ago`;
+	const days = Math.floor(hours / 24);
+	if (days < 60) return `${days}d ago`;
+	return `${Math.floor(days / 30)}mo ago`;
+}
+
+/** A column of `width` terminal cells — wide characters count double */
+function cell(text: string, width: number, alignRight = false): string {
+	const clipped = truncateToWidth(stripControlChars(text), width, "…");
+	const fill = " ".repeat(Math.max(0, width - visibleWidth(clipped)));
+	return alignRight ? fill + clipped : clipped + fill;
+}
+
+function projectLabel(projects: string[]): string {
+	if (projects.length === 0) return "—";
+	const names = projects.map(p => path.basename(p));
+	return names.length > 2 ? `${names.slice(0, 2).join(", ")} +${names.length - 2}` : names.join(", ");
+}
+
+/**
+ * Build the /skill stats report: per-skill usage, per-namespace totals, then
+ * installed skills nobody has used.
+ */
+export function buildStatsReport(stats: UsageStats, now = Date.now()): ReportRow[] {
+	const rows: ReportRow[] = [];
+
+	rows.push({ text: `${cell("Skill", 40)} ${cell("Uses", 6, true)}  ${cell("Last used", 10)}  Projects`, style: "heading" });
+	if (stats.skills.length === 0) rows.push({ text: "  No usage recorded yet", style: "dim" });
+	for (const s of stats.skills) {
+		const name = s.installed ? skillKey(s) : `${skillKey(s)} (removed)`;
+		rows.push({
+			text: `${cell(name, 40)} ${cell(String(s.count), 6, true)}  ${cell(formatAge(s.lastUsed, now), 10)}  ${projectLabel(s.projects)}`,
+			style: s.installed ? undefined : "dim",
+		});
+	}
+	rows.push({ text: "" });
+
+	rows.push({ text: `${cell("Namespace", 40)} ${cell("Uses", 6, true)}  ${cell("Last used", 10)}  ${cell("Skills", 6)}  Projects`, style: "heading" });
+	for (const ns of stats.namespaces) {
+		rows.push({
+			text: `${cell(ns.namespace, 40)} ${cell(String(ns.count), 6, true)}  ${cell(formatAge(ns.lastUsed, now), 10)}  ${cell(`${ns.used}/${ns.skills}`, 6)}  ${projectLabel(ns.projects)}`,
+			style: ns.used === 0 ? "warning" : undefined,
+		});
+	}
+	rows.push({ text: "" });
+
+	rows.push({ text: `Never used (${stats.neverUsed.length})`, style: "heading" });
+	if (stats.neverUsed.length === 0) rows.push({ text: "  Every installed skill has been used", style: "success" });
+	for (const s of stats.neverUsed) rows.push({ text: `  ${skillKey(s)}`, style: "warning" });
+
+	return rows;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Export
+// ═══════════════════════════════════════════════════════════════════════════
+
+function toIso(timestamp: number | null): string | null {
+	return timestamp === null ? null : new Date(timestamp).toISOString();
+}
+
+export function statsToJson(stats: UsageStats): string {
+	const withIso = <T extends { lastUsed: number | null }>(s: T) => ({ ...s, lastUsed: toIso(s.lastUsed) });
+	return JSON.stringify({
+		generatedAt: new Date().toISOString(),
+		skills: stats.skills.map(withIso),
+		namespaces: stats.namespaces.map(withIso),
+		neverUsed: stats.neverUsed.map(s => skillKey(s)),
+	}, null, 2);
+}
+
+function csvField(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** One row per skill, never-used ones included with a count of 0 */
+export function statsToCsv(stats: UsageStats): string {
+	const lines = ["namespace,name,count,last_used,projects,installed"];
+	for (const s of [...stats.skills, ...stats.neverUsed]) {
+		lines.push([
+			s.namespace,
+			s.name,
+			String(s.count),
+			toIso(s.lastUsed) ?? "",
+			s.projects.join(";"),
+			String(s.installed),
+		].map(csvField).join(","));
+	}
+	return lines.join("\n") + "\n";
+}
@@ -0,0 +1,131 @@
+import type { Skill, SuggestConfig } from "./types";
+import { matchSkill } from "./fuzzy";
+import { sameSkill } from "./lib/skill-key";
+
+/**
+ * Skill suggestions for an outgoing prompt — which skills it seems to be
+ * about, so one the user forgot exists can be offered (or injected). Purely
+ * local: each of the prompt's words is scored against every skill the way the
+ * palette scores it as a search query — name, namespace, description, aliases
+ * and tags. It runs before every prompt, so the prompt is broken down once and
+ * each skill's searchable text is kept between prompts.
+ *
+ * Each signal gives a confidence between 0 and 1, and independent signals
+ * combine as 1 − Π(1 − s): two weak hints beat one, nothing reaches 1.
+ */
+
+export interface SkillSuggestion {
+	skill: Skill;
+	/** 0–1 */
+	confidence: number;
+	/** Prompt words that matched, for the notification */
+	matched: string[];
+}
+
+/** Most suggestions shown at once */
+export const MAX_SUGGESTIONS = 3;
+
+export function defaultSuggestConfig(): SuggestConfig {
+	return { enabled: true, threshold: 0.5, autoInject: null };
+}
+
+// An exact name match in the palette — the most a single prompt word can say
+const EXACT_SCORE = 10000;
+// Ceiling for one word's confidence, so several words still add something
+const MAX_TERM_CONFIDENCE = 0.95;
+// Longest multi-word name looked for ("ad creative" → ad-creative)
+const MAX_NAME_WORDS = 3;
+
+const STOPWORDS = new Set([
+	"the", "and", "for", "with", "this", "that", "from", "into", "onto", "your", "you", "our", "are", "was",
+	"were", "will", "can", "could", "should", "would", "please", "use", "using", "make", "some", "any", "all",
+	"not", "but", "how", "what", "when", "where", "which", "why", "who", "its", "has", "have", "had", "does",
+	"did", "get", "set", "new", "one", "two", "also", "then", "than", "them", "they", "there", "here", "about",
+	"just", "like", "need", "want", "let", "lets", "skill", "skills", "file", "files", "code",
+]);
+
+// Past this many words a prompt is a paste, not a description of the task — the rest are ignored
+const MAX_PROMPT_WORDS = 300;
+
+/** Lowercase words of a text, `-`/`_`-joined names kept whole */
+function words(text: string): string[] {
+	return text.toLowerCase().match(/[a-z0-9][a-z0-9_-]*[a-z0-9]|[a-z0-9]/g) ?? [];
+}
+
+/**
+ * The palette queries a prompt stands for: each content word (a joined
+ * `ad-creative` also as its parts), and runs of up to MAX_NAME_WORDS words
+ * joined by `-`, so a multi-word name written with spaces still matches whole.
+ */
+function promptTerms(prompt: string): Set<string> {
+	const all = words(prompt).slice(0, MAX_PROMPT_WORDS);
+	const terms = new Set<string>();
+	for (const word of all) {
+		for (const part of [word, ...word.split(/[-_]/)]) {
+			if (part.length >= 2 && !STOPWORDS.has(part)) terms.add(part);
+		}
+	}
+	const parts = all.flatMap(w => w.split(/[-_]/)).filter(Boolean);
+	for (let n = 2; n <= MAX_NAME_WORDS; n++) {
+		for (let i = 0; i + n <= parts.length; i++) terms.add(parts.slice(i, i + n).join("-"));
+	}
+	return terms;
+}
+
+// Every field the palette searches, lowercased — a reload builds new Skill objects, so this is computed once per load
+const searchText = new WeakMap<Skill, string>();
+
+function skillSearchText(skill: Skill): string {
+	let cached = searchText.get(skill);
+	if (cached === undefined) {
+		cached = [skill.name, `${skill.namespace}:${skill.name}`, skill.description, ...(skill.aliases ?? []), ...(skill.tags ?? [])]
+			.join("\n").toLowerCase();
+		searchText.set(skill, cached);
+	}
+	return cached;
+}
+
+function combine(scores: number[]): number {
+	return 1 - scores.reduce((rest, s) => rest * (1 - s), 1);
+}
+
+/** Confidence that `prompt` is about `skill`, with the words that said so */
+export function scoreSkillForPrompt(skill: Skill, prompt: string): SkillSuggestion {
+	return scoreSkill(skill, promptTerms(prompt));
+}
+
+/**
+ * Each term is scored by the palette's own matchSkill() — so a one-word
+ * prompt ranks skills exactly as typing that word in the palette does — and
+ * its confidence is that score as a fraction of an exact name match. Terms
+ * that aren't a substring of any field are skipped: a word that only
+ * fuzzily matches isn't a sign the prompt is about the skill.
+ */
+function scoreSkill(skill: Skill, terms: Set<string>): SkillSuggestion {
+	const text = skillSearchText(skill);
+	const scores: number[] = [];
+	const matched: string[] = [];
+	for (const term of terms) {
+		if (!text.includes(term)) continue;
+		const { score } = matchSkill(skill, term);
+		if (score <= 0) continue;
+		scores.push(MAX_TERM_CONFIDENCE * Math.min(1, score / EXACT_SCORE));
+		matched.push(term);
+	}
+	return { skill, confidence: combine(scores), matched };
+}
+
+/**
+ * Skills worth suggesting for a prompt, most confident first. Skills in
+ * `exclude` (already pinned or queued) are never suggested.
+ */
+export function suggestSkills(skills: Skill[], prompt: string, threshold: number, exclude: Skill[] = []): SkillSuggestion[] {
+	if (!prompt.trim()) return [];
+	const terms = promptTerms(prompt);
+	return skills
+		.filter(skill => !exclude.some(e => sameSkill(e, skill)))
+		.map(skill => scoreSkill(skill, terms))
+		.filter(s => s.confidence > 0 && s.confidence >= threshold)
+		.sort((a, b) => b.confidence - a.confidence || a.skill.name.localeCompare(b.skill.name))
+		.slice(0, MAX_SUGGESTIONS);
+}
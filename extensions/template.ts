@@ -0,0 +1,94 @@
+import * as path from "node:path";
+import type { Skill } from "./types";
+import { skillKey } from "./lib/skill-key";
+
+/**
+ * Injection templates — how a skill's content is framed in the message sent
+ * with the next prompt. `{{placeholder}}` is replaced by the skill's value;
+ * `{{placeholder|xml}}` escapes it for use inside XML attributes and tags.
+ *
+ *   {{key}}          namespace:name
+ *   {{name}}         skill name
+ *   {{namespace}}    skill namespace
+ *   {{description}}  frontmatter description
+ *   {{path}}         absolute path of SKILL.md
+ *   {{dir}}          the skill's directory
+ *   {{body}}         SKILL.md without its frontmatter
+ *   {{frontmatter}}  the raw frontmatter YAML, empty if there is none
+ *   {{resources}}    other files in the skill's directory, one `- path` per line
+ *
+ * Unknown placeholders are left as written.
+ */
+
+export const TEMPLATE_PRESETS: Record<string, string> = {
+	xml: `<skill name="{{key|xml}}">\n{{body}}\n</skill>`,
+	markdown: `## Skill: {{key}}\n\n> {{description}}\n\n{{body}}`,
+	system: [
+		`[Skill "{{key}}" loaded from {{path}}]`,
+		`Description: {{description}}`,
+		`Follow the instructions below for this task. Files it refers to are relative to {{dir}}.`,
+		"",
+		"{{body}}",
+	].join("\n"),
+};
+
+export const DEFAULT_TEMPLATE = TEMPLATE_PRESETS.xml;
+
+export interface TemplateVars {
+	key: string;
+	name: string;
+	namespace: string;
+	description: string;
+	path: string;
+	dir: string;
+	body: string;
+	frontmatter: string;
+	resources: string;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*(?:\|\s*(\w+)\s*)?\}\}/g;
+
+function escapeXml(s: string): string {
+	return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * A config `template` value: a preset name, or a template of its own if it has
+ * placeholders. Anything else falls back to the default.
+ */
+export function resolveTemplate(value: string | null | undefined): string {
+	if (!value) return DEFAULT_TEMPLATE;
+	if (Object.hasOwn(TEMPLATE_PRESETS, value)) return TEMPLATE_PRESETS[value];
+	return value.includes("{{") ? value : DEFAULT_TEMPLATE;
+}
+
+export function templateVars(
+	skill: Skill,
+	content: { body: string; frontmatter: string | null },
+	resources: string[] = []
+): TemplateVars {
+	return {
+		key: skillKey(skill),
+		name: skill.name,
+		namespace: skill.namespace,
+		description: skill.description,
+		path: skill.filePath,
+		dir: path.dirname(skill.filePath),
+		body: content.body,
+		frontmatter: content.frontmatter ?? "",
+		resources: resources.map(r => `- ${r}`).join("\n"),
+	};
+}
+
+export function usesPlaceholder(template: string, name: keyof TemplateVars): boolean {
+	return [...template.matchAll(PLACEHOLDER)].some(m => m[1] === name);
+}
+
+export function renderTemplate(template: string, vars: TemplateVars): string {
+	// One pass, so placeholders inside substituted values (a body mentioning {{key}}) stay literal
+	return template.replace(PLACEHOLDER, (match, name: string, filter?: string) => {
+		if (!Object.hasOwn(vars, name)) return match;
+		const value = vars[name as keyof TemplateVars];
+		return filter === "xml" ? escapeXml(value) : value;
+	});
+}
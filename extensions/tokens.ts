@@ -0,0 +1,85 @@
+import type { TokenBudgetConfig } from "./types";
+
+/**
+ * Rough token accounting for injected skills. There is no tokenizer for every
+ * model pi can talk to, so sizes are estimated at ~4 characters per token —
+ * close enough for English prose and Markdown to tell a 500-token skill from
+ * a 20k one, which is what the budget is for.
+ */
+
+const CHARS_PER_TOKEN = 4;
+
+/** Default budget for everything injected with one message, in tokens */
+export const DEFAULT_TOKEN_BUDGET = 8000;
+
+export function defaultTokenBudget(): TokenBudgetConfig {
+	return { budget: DEFAULT_TOKEN_BUDGET, overflow: "warn" };
+}
+
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** `850`, `1.2k`, `12k` — short enough for a palette row */
+export function formatTokens(tokens: number): string {
+	if (tokens < 1000) return `${tokens}`;
+	if (tokens < 10_000) return `${(tokens / 1000).toFixed(1).replace(/\.0$/, "")}k`;
+	return `${Math.round(tokens / 1000)}k`;
+}
+
+const FENCE = /^\s*(```|~~~)/;
+
+/** Markdown headings of a body, in order; `#` lines inside code blocks aren't headings */
+export function outlineBody(body: string): string {
+	const headings: string[] = [];
+	let inFence = false;
+	for (const line of body.split("\n")) {
+		if (FENCE.test(line)) inFence = !inFence;
+		else if (!inFence && /^#{1,6}\s/.test(line)) headings.push(line.trimEnd());
+	}
+	return headings.join("\n");
+}
+
+/** Whole lines of `body` up to `tokens`, closing a code block the cut left open */
+export function truncateToTokens(body: string, tokens: number): string {
+	const maxChars = Math.max(0, tokens) * CHARS_PER_TOKEN;
+	if (body.length <= maxChars) return body;
+	const kept: string[] = [];
+	let used = 0;
+	let inFence = false;
+	for (const line of body.split("\n")) {
+		if (used + line.length + 1 > maxChars) break;
+		kept.push(line);
+		used += line.length + 1;
+		if (FENCE.test(line)) inFence = !inFence;
+	}
+	if (inFence) kept.push("```");
+	return kept.join("\n").trimEnd();
+}
+
+export interface FittedBody {
+	body: string;
+	/** How the body was cut down; null when it was injected whole */
+	shrunk: "truncate" | "outline" | null;
+}
+
+/**
+ * A skill body cut to fit `remaining` tokens of the budget, as the overflow
+ * mode says. The model is told what was left out and where to read the rest,
+ * so a cut skill is still usable rather than silently wrong.
+ */
+export function fitToBudget(body: string, remaining: number, overflow: TokenBudgetConfig["overflow"], filePath: string): FittedBody {
+	if (overflow === "warn" || estimateTokens(body) <= remaining) return { body, shrunk: null };
+	if (overflow === "outline") {
+		const outline = truncateToTokens(outlineBody(body), remaining);
+		return {
+			body: `${outline}${outline ? "\n\n" : ""}[Section headings only — the full skill is over the token budget. Read ${filePath} for the instructions under each heading.]`,
+			shrunk: "outline",
+		};
+	}
+	const kept = truncateToTokens(body, remaining);
+	return {
+		body: `${kept}${kept ? "\n\n" : ""}[Truncated to fit the token budget — read ${filePath} for the rest.]`,
+		shrunk: "truncate",
+	};
+}
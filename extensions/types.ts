@@ -2,18 +2,65 @@ export type Theme = Parameters<
 	Parameters<import("@mariozechner/pi-coding-agent").ExtensionContext["ui"]["custom"]>[0]
 >[1];
 
-export interface Skill {
+/** Optional Agent Skills spec fields (plus tags/aliases) read from SKILL.md frontmatter */
+export interface SkillMetadata {
+	license?: string;
+	compatibility?: string;
+	/** `allowed-tools` — space-delimited in the spec, a YAML list is accepted too */
+	allowedTools?: string[];
+	metadata?: Record<string, string>;
+	tags?: string[];
+	aliases?: string[];
+}
+
+export interface Skill extends SkillMetadata {
 	name: string;
 	namespace: string;
 	description: string;
 	filePath: string;
 	source: "home" | "local";
+	/** Estimated tokens of the SKILL.md body, measured when the skill was loaded */
+	tokens?: number;
+}
+
+export interface SkillFrontmatter extends SkillMetadata {
+	name: string;
+	description: string;
+	/** Explicit namespace (`infra/aws`), overriding the one derived from the path */
+	namespace?: string;
+}
+
+/** A parsed SKILL.md — its frontmatter plus what is measured from the body */
+export interface SkillFile {
+	frontmatter: SkillFrontmatter;
+	tokens: number;
+}
+
+/** An alias or tag that matched the search query */
+export interface KeywordMatch {
+	kind: "alias" | "tag";
+	text: string;
 }
 
+export type MatchField = "name" | "namespace" | "description" | "alias" | "tag";
+
+/** Matched character positions per field; alias/tag positions index into KeywordMatch.text */
+export type MatchHighlights = Partial<Record<MatchField, number[]>>;
+
 export interface DisplayItem {
 	type: "header" | "skill";
 	namespace?: string;
 	skill?: Skill;
+	/** Set in search results when an alias or tag, not the name, made the match */
+	matchedBy?: KeywordMatch;
+	/** Set in search results — which characters to highlight */
+	highlights?: MatchHighlights;
+	/** Headers: number of skills in the group */
+	count?: number;
+	/** Headers: the group's skills are hidden */
+	collapsed?: boolean;
+	/** Nesting level of the item's namespace (`infra/aws` → 1) */
+	depth?: number;
 }
 
 export interface SkillUsage {
@@ -23,18 +70,158 @@ export interface SkillUsage {
 	count: number;
 }
 
+/** A use counted in this session that couldn't be written to usage.json yet */
+export interface UnsavedUse {
+	skill: Skill;
+	timestamp: number;
+}
+
 export interface PaletteState {
-	queuedSkill: Skill | null;
+	/** Skills injected with the next message, in queue order */
+	queuedSkills: Skill[];
+	/** Skills injected on every agent start until unpinned */
+	pinnedSkills: Skill[];
+	/** Usage history of every skill ever injected, most recent first */
 	recentSkills: SkillUsage[];
+	/** Same, for the current project only */
+	projectRecentSkills: SkillUsage[];
+	/** Uses the usage lock kept us from writing — added to the next write */
+	unsavedUsage: UnsavedUse[];
+	/** Git root (or cwd) that project usage is recorded under; null records globally only */
+	projectRoot: string | null;
+	/** Palette groups (namespaces or recent sections) the user collapsed */
+	collapsedGroups: string[];
+	/** Palette search queries, most recent first */
+	queryHistory: string[];
 }
 
 export interface SkillDirConfig {
+	/** Built-in dir id (e.g. "codex"); absent for dirs from a config file */
+	id?: string;
 	dir: string;
 	recursive: boolean;
 	source: "home" | "local";
+	/** Namespace for every skill in this dir, instead of deriving it from the path */
+	namespace?: string;
+	/** Scan order — lower scans first and wins name collisions */
+	precedence: number;
+}
+
+export type SkillDiagnosticKind =
+	| "missing-dir"
+	| "unreadable-dir"
+	| "broken-symlink"
+	| "unreadable-file"
+	| "missing-description"
+	| "shadowed"
+	| "invalid-config";
+
+/** A problem found while loading skills — surfaced by /skill doctor */
+export interface SkillDiagnostic {
+	kind: SkillDiagnosticKind;
+	/** File or directory the problem is about */
+	path: string;
+	message: string;
+	/** For "shadowed": the qualified skill name and the file that won */
+	name?: string;
+	shadowedBy?: string;
 }
 
+export interface DirEntryInfo {
+	name: string;
+	isDirectory: boolean;
+	isSymlink: boolean;
+}
+
+/** Filesystem access used while scanning — swapped for a cached one by the skill index */
+export interface SkillFsReader {
+	/** List a directory; throws if it can't be read */
+	readDir(dir: string): DirEntryInfo[];
+	/** Read and parse a SKILL.md; throws if it can't be read */
+	readSkillFile(filePath: string): SkillFile;
+}
+
+export interface SkillLoadResult {
+	skills: Skill[];
+	diagnostics: SkillDiagnostic[];
+}
+
+/** A skill directory as written in a config file, before expansion */
+export interface SkillDirEntry {
+	path: string;
+	recursive?: boolean;
+	source?: "home" | "local";
+	namespace?: string;
+	precedence?: number;
+}
+
+/** Contents of ~/.pi-skill-picker/config.json or .pi/skill-picker.json */
+export interface PickerConfig {
+	skillDirs: SkillDirEntry[];
+	/** Built-in dirs to skip: `true` for all, or a list of ids (e.g. "codex", "project-pi") */
+	disableDefaults: boolean | string[];
+	/** Watch skill dirs and reload live instead of re-checking mtimes on every lookup */
+	watch: boolean;
+	/** Extra search aliases, keyed by `namespace:name` or bare skill name */
+	aliases: Record<string, string[]>;
+	/** Injection template: a preset name or a `{{placeholder}}` template; null for the default */
+	template: string | null;
+	/** Inline `$skill` mentions in prompts: kept in the text, stripped from it, or not detected */
+	mentions: "keep" | "strip" | "off";
+	/** Replace pi's prompt editor with one that completes mentions (opt-in — there is one editor slot) */
+	mentionEditor: boolean;
+	resources: ResourceConfig;
+	tokens: TokenBudgetConfig;
+	suggest: SuggestConfig;
+	/** Register list_skills / load_skill so the agent can find and load skills itself */
+	tools: boolean;
+}
+
+/** What to tell the model about the files shipped with a skill */
+export interface ResourceConfig {
+	/** Append a manifest of the skill's files (relative paths, sizes) to the injected body */
+	manifest: boolean;
+	/** Rewrite relative links in the body to absolute paths */
+	resolveLinks: boolean;
+	/** Most characters the manifest may take */
+	budget: number;
+	/** Extra ignore patterns (`*.log`, `fixtures/**`) on top of the defaults */
+	ignore: string[];
+}
+
+/** How much skill content one message may carry, and what to do past it */
+export interface TokenBudgetConfig {
+	/** Estimated tokens for all skills injected with a message; null for no limit */
+	budget: number | null;
+	/** Past the budget: only warn, cut the body short, or keep just its headings */
+	overflow: "warn" | "truncate" | "outline";
+}
+
+/** Skills suggested for a prompt when none were queued for it */
+export interface SuggestConfig {
+	enabled: boolean;
+	/** Least confidence (0–1) for a skill to be suggested */
+	threshold: number;
+	/** Confidence at which a suggested skill is injected without asking; null never does */
+	autoInject: number | null;
+}
+
+/**
+ * Result of a palette interaction. `select` and `unqueue` carry the skill the
+ * user pressed Enter on plus the full queue as it should be after the action.
+ */
 export type PaletteAction =
-	| { type: "select"; skill: Skill }
-	| { type: "unqueue"; skill: Skill }
+	| { type: "select"; skill: Skill; queued: Skill[] }
+	| { type: "unqueue"; skill: Skill; queued: Skill[] }
+	| { type: "pin"; skill: Skill; queued: Skill[] }
+	| { type: "unpin"; skill: Skill; queued: Skill[] }
 	| { type: "cancel" };
+
+/** How the palette closed, with the view state worth remembering */
+export interface PaletteResult {
+	action: PaletteAction;
+	/** The search query as it was when the palette closed */
+	query: string;
+	/** Groups collapsed when the palette closed — persisted for the next session */
+	collapsedGroups: string[];
+}
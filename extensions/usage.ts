@@ -1,41 +1,305 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
-import type { Skill, SkillUsage, PaletteState } from "./types";
+import type { Skill, SkillUsage, PaletteState, UnsavedUse } from "./types";
+import { sameSkill } from "./lib/skill-key";
 
+/** How many skills the "★ recent" section shows — the history itself is unbounded */
 export const MAX_RECENTS = 8;
+/** How many skills the "recent in this project" section shows */
+export const MAX_PROJECT_RECENTS = 5;
 export const USAGE_FILE = path.join(os.homedir(), ".pi-skill-picker", "usage.json");
+// A use in this project counts this many times when ranking — global uses once
+const PROJECT_WEIGHT = 3;
+/** Current usage.json schema — bump with a migration in migrateUsage() */
+export const USAGE_VERSION = 2;
+// Another session holds the lock only for one small write — past this, skip ours
+const LOCK_TIMEOUT_MS = 250;
+const LOCK_RETRY_MS = 10;
+// No write holds the lock this long — whoever left it crashed
+const LOCK_STALE_MS = 10_000;
 
-export function loadUsageFromDisk(): SkillUsage[] {
+export interface UsageHistory {
+	/** Every project, most recent first */
+	global: SkillUsage[];
+	/** Only the current project, most recent first */
+	project: SkillUsage[];
+}
+
+/**
+ * Key for per-project usage: the enclosing git root, or cwd outside a repo.
+ */
+export function findProjectRoot(cwd: string): string {
+	let dir = path.resolve(cwd);
+	while (true) {
+		if (fs.existsSync(path.join(dir, ".git"))) return dir;
+		const parent = path.dirname(dir);
+		if (parent === dir) return path.resolve(cwd);
+		dir = parent;
+	}
+}
+
+/** On-disk shape of usage.json */
+export interface UsageFile {
+	version: number;
+	/** Capped copy of `history` — the only field versions before the history existed read */
+	recents: SkillUsage[];
+	history: SkillUsage[];
+	projects: Record<string, SkillUsage[]>;
+}
+
+function isUsage(value: unknown): value is SkillUsage {
+	if (!value || typeof value !== "object") return false;
+	const u = value as Record<string, unknown>;
+	return typeof u.name === "string" && typeof u.namespace === "string"
+		&& typeof u.timestamp === "number" && typeof u.count === "number";
+}
+
+/** The valid entries of a stored list, or null if it isn't a list */
+function usageList(value: unknown): SkillUsage[] | null {
+	return Array.isArray(value) ? value.filter(isUsage) : null;
+}
+
+/**
+ * Bring any known usage.json shape up to USAGE_VERSION:
+ *   - unversioned `{ recents }` — the original capped list
+ *   - unversioned `{ recents, history, projects }`
+ * Malformed entries (hand edits, truncated writes) are dropped. Returns null
+ * for files written by a newer version, which we must not rewrite.
+ */
+export function migrateUsage(raw: unknown): UsageFile | null {
+	const data = raw && typeof raw === "object" ? raw as Record<string, unknown> : {};
+	if (typeof data.version === "number" && data.version > USAGE_VERSION) return null;
+	const history = usageList(data.history) ?? usageList(data.recents) ?? [];
+	const projects: Record<string, SkillUsage[]> = {};
+	if (data.projects && typeof data.projects === "object") {
+		for (const [root, list] of Object.entries(data.projects)) {
+			const valid = usageList(list);
+			if (valid) projects[root] = valid;
+		}
+	}
+	return { version: USAGE_VERSION, recents: history.slice(0, MAX_RECENTS), history, projects };
+}
+
+/** usage.json as read: `corrupt` when the file exists but isn't a usage object */
+interface UsageRead {
+	data: UsageFile | null;
+	corrupt: boolean;
+}
+
+function readUsageFile(file: string): UsageRead {
+	let text: string;
 	try {
-		const data = JSON.parse(fs.readFileSync(USAGE_FILE, "utf-8"));
-		return Array.isArray(data?.recents) ? data.recents : [];
+		text = fs.readFileSync(file, "utf-8");
 	} catch {
-		return [];
+		// No file yet — start empty
+		return { data: migrateUsage(null), corrupt: false };
 	}
+	try {
+		const raw: unknown = JSON.parse(text);
+		if (raw && typeof raw === "object" && !Array.isArray(raw)) return { data: migrateUsage(raw), corrupt: false };
+	} catch {
+		// Fall through — unparsable
+	}
+	return { data: migrateUsage(null), corrupt: true };
+}
+
+/** Read and migrate usage.json — null if it was written by a newer version */
+export function loadUsageFile(file = USAGE_FILE): UsageFile | null {
+	return readUsageFile(file).data;
+}
+
+export function loadUsageFromDisk(projectRoot: string | null = null, file = USAGE_FILE): UsageHistory {
+	const data = loadUsageFile(file);
+	if (!data) return { global: [], project: [] };
+	return { global: data.history, project: (projectRoot && data.projects[projectRoot]) || [] };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Locked read-modify-write — several pi sessions share usage.json
+// ═══════════════════════════════════════════════════════════════════════════
+
+function delay(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-export function saveUsageToDisk(state: PaletteState): void {
+/**
+ * Remove a lock judged stale. It's renamed to a name only we use first, then
+ * checked: if another waiter broke it and a live lock took its place in the
+ * meantime, we got that one instead — it goes back rather than being deleted.
+ */
+function breakStaleLock(lockFile: string, stale: fs.Stats): void {
+	const claimed = `${lockFile}.${process.pid}.${Math.random().toString(36).slice(2)}.stale`;
 	try {
-		const dir = path.dirname(USAGE_FILE);
+		fs.renameSync(lockFile, claimed);
+	} catch {
+		// Already broken by another waiter
+		return;
+	}
+	try {
+		const current = fs.statSync(claimed);
+		if (current.ino !== stale.ino || current.mtimeMs !== stale.mtimeMs) {
+			// EEXIST: yet another lock was taken since — leave it be
+			try { fs.linkSync(claimed, lockFile); } catch { /* see above */ }
+		}
+	} finally {
+		fs.rmSync(claimed, { force: true });
+	}
+}
+
+/**
+ * Take `<file>.lock` (O_EXCL create). A lock older than LOCK_STALE_MS was left
+ * by a crashed session and is broken. Retries without blocking the event loop;
+ * returns false if the lock stays busy.
+ */
+async function acquireLock(lockFile: string): Promise<boolean> {
+	const deadline = Date.now() + LOCK_TIMEOUT_MS;
+	while (true) {
+		try {
+			fs.closeSync(fs.openSync(lockFile, "wx", 0o600));
+			return true;
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== "EEXIST") return false;
+		}
+		try {
+			const stat = fs.statSync(lockFile);
+			if (Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+				breakStaleLock(lockFile, stat);
+				continue;
+			}
+		} catch {
+			// Released between our open and stat — just retry
+			continue;
+		}
+		if (Date.now() >= deadline) return false;
+		await delay(LOCK_RETRY_MS);
+	}
+}
+
+interface UsageUpdate {
+	/** What was written, or null if nothing was */
+	written: UsageFile | null;
+	/** Where an unreadable usage.json was moved before starting a new one */
+	backup: string | null;
+}
+
+/**
+ * Apply `update` to the latest usage.json under the lock and write it back
+ * atomically (temp file + rename), so concurrent sessions merge instead of
+ * overwriting each other. A file that can't be read is renamed to
+ * `usage.json.bak` first (or a timestamped `.bak` if that one is taken) — a
+ * fresh history never replaces an old one.
+ */
+async function updateUsageFile(file: string, update: (data: UsageFile) => void): Promise<UsageUpdate> {
+	let backup: string | null = null;
+	try {
+		const dir = path.dirname(file);
 		if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-		fs.writeFileSync(USAGE_FILE, JSON.stringify({ recents: state.recentSkills }, null, 2));
-		fs.chmodSync(USAGE_FILE, 0o600);
+		const lockFile = `${file}.lock`;
+		if (!(await acquireLock(lockFile))) return { written: null, backup };
+		try {
+			const { data, corrupt } = readUsageFile(file);
+			if (!data) return { written: null, backup };
+			if (corrupt) {
+				backup = fs.existsSync(`${file}.bak`) ? `${file}.${Date.now()}.bak` : `${file}.bak`;
+				fs.renameSync(file, backup);
+			}
+			update(data);
+			data.recents = data.history.slice(0, MAX_RECENTS);
+
+			const tmpFile = `${file}.${process.pid}.tmp`;
+			fs.writeFileSync(tmpFile, JSON.stringify(data, null, 2), { mode: 0o600 });
+			fs.renameSync(tmpFile, file);
+			return { written: data, backup };
+		} finally {
+			fs.rmSync(lockFile, { force: true });
+		}
 	} catch {
 		// silently fail — not critical
+		return { written: null, backup };
 	}
 }
 
-export function recordUsage(state: PaletteState, skill: Skill): void {
+function bump(history: SkillUsage[], skill: Skill, now: number): SkillUsage[] {
 	// Find existing entry to preserve count
-	const existing = state.recentSkills.find(r => r.name === skill.name);
+	const existing = history.find(r => sameSkill(r, skill));
 	const count = (existing?.count ?? 0) + 1;
 
 	// Remove existing entry for this skill, add to front
-	state.recentSkills = state.recentSkills.filter(r => r.name !== skill.name);
-	state.recentSkills.unshift({ name: skill.name, namespace: skill.namespace, timestamp: Date.now(), count });
-	if (state.recentSkills.length > MAX_RECENTS) state.recentSkills.length = MAX_RECENTS;
+	return [
+		{ name: skill.name, namespace: skill.namespace, timestamp: now, count },
+		...history.filter(r => !sameSkill(r, skill)),
+	];
+}
+
+/**
+ * Write `uses` plus any still unsaved from earlier, under the lock. On success
+ * the unsaved ones are cleared and the state refreshed from the merged file.
+ */
+async function writeUses(state: PaletteState, uses: UnsavedUse[], file: string): Promise<UsageUpdate> {
+	const root = state.projectRoot;
+	let flushed: UnsavedUse[] = [];
+	const update = await updateUsageFile(file, data => {
+		flushed = [...state.unsavedUsage];
+		for (const use of [...flushed, ...uses]) {
+			data.history = bump(data.history, use.skill, use.timestamp);
+			if (root) data.projects[root] = bump(data.projects[root] ?? [], use.skill, use.timestamp);
+		}
+	});
+
+	if (update.written) {
+		state.unsavedUsage = state.unsavedUsage.filter(use => !flushed.includes(use));
+		state.recentSkills = update.written.history;
+		if (root) state.projectRecentSkills = update.written.projects[root];
+	}
+	return update;
+}
+
+/**
+ * Count one use of a skill. The increment is applied to what's on disk, not to
+ * this session's copy, and the state is refreshed from the merged result —
+ * uses recorded by other sessions show up here too. A use that can't be written
+ * (lock busy) waits in `state.unsavedUsage` and goes out with the next write.
+ * Resolves once the state is updated, with the path an unreadable usage.json
+ * was moved to (null normally) so the caller can tell the user.
+ */
+export async function recordUsage(state: PaletteState, skill: Skill, file = USAGE_FILE): Promise<string | null> {
+	const now = Date.now();
+	const { written, backup } = await writeUses(state, [{ skill, timestamp: now }], file);
+	if (!written) {
+		// Couldn't persist — count it for this session and retry with the next write
+		state.unsavedUsage.push({ skill, timestamp: now });
+		state.recentSkills = bump(state.recentSkills, skill, now);
+		if (state.projectRoot) state.projectRecentSkills = bump(state.projectRecentSkills, skill, now);
+	}
+	return backup;
+}
+
+/**
+ * Write the uses still waiting in `state.unsavedUsage` — for session end, when
+ * there's no next write to take them along. Tries the lock twice; resolves
+ * false if they stay unsaved.
+ */
+export async function flushUnsavedUsage(state: PaletteState, file = USAGE_FILE): Promise<boolean> {
+	for (let attempt = 0; attempt < 2 && state.unsavedUsage.length > 0; attempt++) {
+		await writeUses(state, [], file);
+	}
+	return state.unsavedUsage.length === 0;
+}
 
-	// Persist to disk
-	saveUsageToDisk(state);
+/**
+ * Combine global and project usage into one list for ranking. Project uses are
+ * already part of the global count; they're added again so they weigh
+ * PROJECT_WEIGHT times as much.
+ */
+export function mergeUsage(global: SkillUsage[], project: SkillUsage[]): SkillUsage[] {
+	if (project.length === 0) return global;
+	const merged = global.map(g => {
+		const p = project.find(u => sameSkill(u, g));
+		return p ? { ...g, count: g.count + (PROJECT_WEIGHT - 1) * p.count, timestamp: Math.max(g.timestamp, p.timestamp) } : g;
+	});
+	for (const p of project) {
+		if (!merged.some(m => sameSkill(m, p))) merged.push({ ...p, count: PROJECT_WEIGHT * p.count });
+	}
+	return merged;
 }